@@ -1,13 +1,20 @@
 import './App.css'
 import { PrimaryPlayer } from './components/PrimaryPlayer'
 import { SecondaryPlayer } from './components/SecondaryPlayer'
+import { SelfTest } from './components/SelfTest'
 import { useDualScreen } from './dual-screen'
 
 function App() {
-  const { isSecondaryScreen } = useDualScreen()
+  const { isSecondaryScreen, isSelfTest } = useDualScreen()
   return (
     <div className="app">
-      {isSecondaryScreen ? <SecondaryPlayer /> : <PrimaryPlayer />}
+      {isSelfTest ? (
+        <SelfTest />
+      ) : isSecondaryScreen ? (
+        <SecondaryPlayer />
+      ) : (
+        <PrimaryPlayer />
+      )}
     </div>
   )
 }
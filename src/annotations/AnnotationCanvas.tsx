@@ -0,0 +1,157 @@
+import { type RefObject, useEffect, useRef } from 'react'
+
+import { AnnotationTool, type AnnotationStroke } from '../web-rtc'
+
+import {
+  drawStroke,
+  getVideoContentRect,
+  isStrokeVisible,
+  toNormalizedPoint,
+} from './annotations'
+import type { Annotations } from './useAnnotations'
+
+// Minimum distance between two points of a stroke, in normalized coordinates
+const MIN_POINT_DISTANCE = 0.003
+
+interface AnnotationCanvasProps {
+  videoRef: RefObject<HTMLVideoElement | null>
+  annotations: Annotations
+  /** Playback time of the primary video, `null` when unknown */
+  getCurrentTime: () => number | null
+  /** Whether the pointer draws, otherwise the annotations are only shown */
+  editable?: boolean
+}
+
+/**
+ * Canvas over a video showing the annotations, and drawing new ones with the
+ * selected tool when editable
+ */
+export function AnnotationCanvas({
+  videoRef,
+  annotations,
+  getCurrentTime,
+  editable = false,
+}: AnnotationCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  // Stroke being drawn, only shared once finished
+  const currentStrokeRef = useRef<AnnotationStroke | null>(null)
+
+  // Latest props, read by the drawing loop
+  const annotationsRef = useRef(annotations)
+  annotationsRef.current = annotations
+  const getCurrentTimeRef = useRef(getCurrentTime)
+  getCurrentTimeRef.current = getCurrentTime
+
+  // Redraw every frame, annotations tied to the playback time come and go as
+  // the video plays
+  useEffect(() => {
+    let frame = 0
+    let isBlank = true
+    const draw = () => {
+      frame = requestAnimationFrame(draw)
+      const canvas = canvasRef.current
+      const video = videoRef.current
+      const context = canvas?.getContext('2d')
+      if (!canvas || !video || !context) {
+        return
+      }
+      const { strokes, mode } = annotationsRef.current
+      const currentStroke = currentStrokeRef.current
+      if (isBlank && strokes.length === 0 && !currentStroke) {
+        return
+      }
+      // Keep the canvas as sharp as the screen
+      const scale = window.devicePixelRatio
+      const width = Math.round(canvas.clientWidth * scale)
+      const height = Math.round(canvas.clientHeight * scale)
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width
+        canvas.height = height
+      }
+      context.setTransform(scale, 0, 0, scale, 0, 0)
+      context.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight)
+      const rect = getVideoContentRect(video, canvas.getBoundingClientRect())
+      const currentTime = getCurrentTimeRef.current()
+      for (const stroke of strokes) {
+        if (isStrokeVisible(stroke, mode, currentTime)) {
+          drawStroke(context, stroke, rect)
+        }
+      }
+      if (currentStroke) {
+        drawStroke(context, currentStroke, rect)
+      }
+      isBlank = strokes.length === 0 && !currentStroke
+    }
+    frame = requestAnimationFrame(draw)
+    return () => cancelAnimationFrame(frame)
+  }, [videoRef])
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const video = videoRef.current
+    if (!video) {
+      return null
+    }
+    const box = event.currentTarget.getBoundingClientRect()
+    return toNormalizedPoint(
+      event.clientX - box.left,
+      event.clientY - box.top,
+      getVideoContentRect(video, box),
+    )
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getPoint(event)
+    if (!editable || !point) {
+      return
+    }
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const { tool, color } = annotationsRef.current
+    currentStrokeRef.current = {
+      id: crypto.randomUUID(),
+      tool,
+      color,
+      points: [point],
+      time: getCurrentTimeRef.current(),
+    }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStrokeRef.current
+    const point = stroke && getPoint(event)
+    if (!stroke || !point) {
+      return
+    }
+    if (stroke.tool === AnnotationTool.ARROW) {
+      stroke.points = [stroke.points[0], point]
+      return
+    }
+    const last = stroke.points[stroke.points.length - 1]
+    if (Math.hypot(point.x - last.x, point.y - last.y) >= MIN_POINT_DISTANCE) {
+      stroke.points.push(point)
+    }
+  }
+
+  const handlePointerUp = () => {
+    const stroke = currentStrokeRef.current
+    currentStrokeRef.current = null
+    // An arrow needs a direction
+    if (
+      stroke &&
+      (stroke.tool !== AnnotationTool.ARROW || stroke.points.length > 1)
+    ) {
+      annotationsRef.current.addStroke(stroke)
+    }
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`annotation-canvas${editable ? ' editable' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      aria-hidden="true"
+    />
+  )
+}
@@ -0,0 +1,70 @@
+import { AnnotationMode, AnnotationTool } from '../web-rtc'
+
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_MODE_LABELS,
+  ANNOTATION_TOOL_LABELS,
+} from './annotations'
+import type { Annotations } from './useAnnotations'
+
+interface AnnotationToolbarProps {
+  annotations: Annotations
+}
+
+export function AnnotationToolbar({ annotations }: AnnotationToolbarProps) {
+  const {
+    strokes,
+    mode,
+    tool,
+    color,
+    setTool,
+    setColor,
+    undo,
+    clear,
+    changeMode,
+  } = annotations
+
+  return (
+    <div className="annotation-toolbar">
+      {Object.values(AnnotationTool).map((value) => (
+        <button
+          key={value}
+          type="button"
+          className={value === tool ? 'active' : undefined}
+          onClick={() => setTool(value)}
+        >
+          {ANNOTATION_TOOL_LABELS[value]}
+        </button>
+      ))}
+      <span className="annotation-colors">
+        {ANNOTATION_COLORS.map((value) => (
+          <button
+            key={value}
+            type="button"
+            className={`annotation-color${value === color ? ' active' : ''}`}
+            style={{ backgroundColor: value }}
+            onClick={() => setColor(value)}
+            aria-label={`Color ${value}`}
+          />
+        ))}
+      </span>
+      <button type="button" onClick={undo} disabled={strokes.length === 0}>
+        Undo
+      </button>
+      <button type="button" onClick={clear} disabled={strokes.length === 0}>
+        Clear
+      </button>
+      <select
+        value={mode}
+        onChange={(event) => changeMode(event.target.value as AnnotationMode)}
+        aria-label="When annotations go away"
+      >
+        {Object.values(AnnotationMode).map((value) => (
+          <option key={value} value={value}>
+            {ANNOTATION_MODE_LABELS[value]}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import {
+  AnnotationMode,
+  type AnnotationPoint,
+  type AnnotationStroke,
+  AnnotationTool,
+} from '../web-rtc'
+
+// Seconds of playback an annotation tied to the time stays visible
+export const ANNOTATION_DISPLAY_DURATION = 3
+// Seconds an annotation shows up early, the time of the primary video seen
+// by a secondary window is an estimate
+const TIME_TOLERANCE = 0.25
+
+export const ANNOTATION_COLORS = [
+  '#ff3b30',
+  '#ffcc00',
+  '#34c759',
+  '#0a84ff',
+  '#ffffff',
+]
+
+export const ANNOTATION_TOOL_LABELS: Record<AnnotationTool, string> = {
+  [AnnotationTool.PEN]: 'Pen',
+  [AnnotationTool.ARROW]: 'Arrow',
+  [AnnotationTool.HIGHLIGHT]: 'Highlight',
+}
+
+export const ANNOTATION_MODE_LABELS: Record<AnnotationMode, string> = {
+  [AnnotationMode.TIED_TO_TIME]: 'Keep with the playback time',
+  [AnnotationMode.CLEAR_ON_PLAY]: 'Clear when playback resumes',
+}
+
+// Whether an annotation is shown at the given playback time
+export const isStrokeVisible = (
+  stroke: AnnotationStroke,
+  mode: AnnotationMode,
+  currentTime: number | null,
+): boolean =>
+  mode !== AnnotationMode.TIED_TO_TIME ||
+  stroke.time === null ||
+  currentTime === null ||
+  (currentTime >= stroke.time - TIME_TOLERANCE &&
+    currentTime <= stroke.time + ANNOTATION_DISPLAY_DURATION)
+
+/** Where the picture of a video is drawn, without the letterbox bars */
+export interface ContentRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// Picture of a video, relative to the given box, e.g. the annotation canvas
+export const getVideoContentRect = (
+  video: HTMLVideoElement,
+  relativeTo: DOMRect,
+): ContentRect => {
+  const box = video.getBoundingClientRect()
+  let { width, height } = box
+  // The picture keeps its aspect ratio inside the element, unless stretched
+  const { objectFit } = getComputedStyle(video)
+  if (video.videoWidth > 0 && video.videoHeight > 0 && objectFit !== 'fill') {
+    const fitScale = objectFit === 'cover' ? Math.max : Math.min
+    const scale = fitScale(
+      box.width / video.videoWidth,
+      box.height / video.videoHeight,
+    )
+    width = video.videoWidth * scale
+    height = video.videoHeight * scale
+  }
+  return {
+    left: box.left - relativeTo.left + (box.width - width) / 2,
+    top: box.top - relativeTo.top + (box.height - height) / 2,
+    width,
+    height,
+  }
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+// Four decimals are finer than any screen and keep the messages small
+const round = (value: number) => Math.round(value * 10000) / 10000
+
+export const toNormalizedPoint = (
+  x: number,
+  y: number,
+  rect: ContentRect,
+): AnnotationPoint => ({
+  x: round(clamp((x - rect.left) / rect.width)),
+  y: round(clamp((y - rect.top) / rect.height)),
+})
+
+// Draw one annotation onto the picture of the video
+export const drawStroke = (
+  context: CanvasRenderingContext2D,
+  stroke: AnnotationStroke,
+  rect: ContentRect,
+): void => {
+  const points = stroke.points.map(({ x, y }) => ({
+    x: rect.left + x * rect.width,
+    y: rect.top + y * rect.height,
+  }))
+  if (points.length === 0) {
+    return
+  }
+  // Scale the lines with the picture so they look the same in every window
+  const lineWidth = Math.max(2, rect.width * 0.004)
+  context.save()
+  context.strokeStyle = stroke.color
+  context.lineCap = 'round'
+  context.lineJoin = 'round'
+  context.lineWidth = lineWidth
+  if (stroke.tool === AnnotationTool.HIGHLIGHT) {
+    context.globalAlpha = 0.35
+    context.lineWidth = lineWidth * 5
+  }
+  context.beginPath()
+  context.moveTo(points[0].x, points[0].y)
+  // A single point still shows as a dot thanks to the round caps
+  for (const point of points.length > 1 ? points.slice(1) : points) {
+    context.lineTo(point.x, point.y)
+  }
+  if (stroke.tool === AnnotationTool.ARROW && points.length > 1) {
+    const start = points[0]
+    const end = points[points.length - 1]
+    const angle = Math.atan2(end.y - start.y, end.x - start.x)
+    const headLength = lineWidth * 5
+    for (const side of [-1, 1]) {
+      context.moveTo(end.x, end.y)
+      context.lineTo(
+        end.x - headLength * Math.cos(angle + (side * Math.PI) / 6),
+        end.y - headLength * Math.sin(angle + (side * Math.PI) / 6),
+      )
+    }
+  }
+  context.stroke()
+  context.restore()
+}
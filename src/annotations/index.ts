@@ -0,0 +1,15 @@
+export { AnnotationCanvas } from './AnnotationCanvas'
+export { AnnotationToolbar } from './AnnotationToolbar'
+export {
+  ANNOTATION_COLORS,
+  ANNOTATION_DISPLAY_DURATION,
+  ANNOTATION_MODE_LABELS,
+  ANNOTATION_TOOL_LABELS,
+  drawStroke,
+  getVideoContentRect,
+  isStrokeVisible,
+  toNormalizedPoint,
+} from './annotations'
+export type { ContentRect } from './annotations'
+export { useAnnotations } from './useAnnotations'
+export type { Annotations } from './useAnnotations'
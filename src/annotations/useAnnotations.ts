@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import {
+  AnnotationMode,
+  type AnnotationStroke,
+  AnnotationTool,
+  type AnnotationsMessage,
+  MessageType,
+} from '../web-rtc'
+
+import { ANNOTATION_COLORS } from './annotations'
+
+/**
+ * Annotations drawn over the video, shared with the other windows.
+ * `onChange` receives every change made in this window, not the ones received
+ * from the other windows.
+ */
+export function useAnnotations(
+  isPaused: boolean,
+  onChange?: (message: AnnotationsMessage) => void,
+) {
+  const [strokes, setStrokes] = useState<AnnotationStroke[]>([])
+  const [mode, setMode] = useState<AnnotationMode>(AnnotationMode.CLEAR_ON_PLAY)
+  const [tool, setTool] = useState<AnnotationTool>(AnnotationTool.PEN)
+  const [color, setColor] = useState(ANNOTATION_COLORS[0])
+
+  // Latest values, for the callbacks and the messages
+  const strokesRef = useRef(strokes)
+  const modeRef = useRef(mode)
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  const toMessage = useCallback(
+    (): AnnotationsMessage => ({
+      type: MessageType.ANNOTATIONS,
+      strokes: strokesRef.current,
+      mode: modeRef.current,
+    }),
+    [],
+  )
+
+  const apply = useCallback(
+    (strokes: AnnotationStroke[], mode: AnnotationMode) => {
+      strokesRef.current = strokes
+      modeRef.current = mode
+      setStrokes(strokes)
+      setMode(mode)
+    },
+    [],
+  )
+
+  // Apply a change made in this window and share it
+  const update = useCallback(
+    (strokes: AnnotationStroke[], mode: AnnotationMode) => {
+      apply(strokes, mode)
+      onChangeRef.current?.(toMessage())
+    },
+    [apply, toMessage],
+  )
+
+  const addStroke = useCallback(
+    (stroke: AnnotationStroke) =>
+      update([...strokesRef.current, stroke], modeRef.current),
+    [update],
+  )
+
+  const undo = useCallback(
+    () => update(strokesRef.current.slice(0, -1), modeRef.current),
+    [update],
+  )
+
+  const clear = useCallback(() => update([], modeRef.current), [update])
+
+  const changeMode = useCallback(
+    (mode: AnnotationMode) => update(strokesRef.current, mode),
+    [update],
+  )
+
+  // Apply the annotations of another window
+  const receive = useCallback(
+    ({ strokes, mode }: AnnotationsMessage) => apply(strokes, mode),
+    [apply],
+  )
+
+  // Every window clears its own annotations when the playback resumes, so
+  // nothing needs to be sent
+  const wasPausedRef = useRef(isPaused)
+  useEffect(() => {
+    if (
+      wasPausedRef.current &&
+      !isPaused &&
+      modeRef.current === AnnotationMode.CLEAR_ON_PLAY
+    ) {
+      apply([], modeRef.current)
+    }
+    wasPausedRef.current = isPaused
+  }, [apply, isPaused])
+
+  return {
+    strokes,
+    mode,
+    tool,
+    color,
+    setTool,
+    setColor,
+    addStroke,
+    undo,
+    clear,
+    changeMode,
+    receive,
+    toMessage,
+  }
+}
+
+export type Annotations = ReturnType<typeof useAnnotations>
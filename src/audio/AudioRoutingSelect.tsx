@@ -0,0 +1,29 @@
+import { AudioRouting } from '../web-rtc'
+
+import { AUDIO_ROUTING_LABELS } from './audioRouting'
+
+interface AudioRoutingSelectProps {
+  routing: AudioRouting
+  onChange: (routing: AudioRouting) => void
+}
+
+export function AudioRoutingSelect({
+  routing,
+  onChange,
+}: AudioRoutingSelectProps) {
+  return (
+    <label className="audio-routing">
+      Play audio on
+      <select
+        value={routing}
+        onChange={(event) => onChange(event.target.value as AudioRouting)}
+      >
+        {Object.values(AudioRouting).map((value) => (
+          <option key={value} value={value}>
+            {AUDIO_ROUTING_LABELS[value]}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
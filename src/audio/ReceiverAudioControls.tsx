@@ -0,0 +1,47 @@
+import type { ReceiverAudio } from './useReceiverAudio'
+
+interface ReceiverAudioControlsProps {
+  audio: ReceiverAudio
+}
+
+export function ReceiverAudioControls({ audio }: ReceiverAudioControlsProps) {
+  const {
+    shouldPlayAudio,
+    volume,
+    setVolume,
+    isAudioBlocked,
+    enableAudio,
+    hasAudioTrack,
+  } = audio
+
+  if (!shouldPlayAudio) {
+    return (
+      <div className="receiver-audio">Audio plays on the primary window</div>
+    )
+  }
+  return (
+    <div className="receiver-audio">
+      {isAudioBlocked && (
+        <button type="button" onClick={enableAudio}>
+          Click to enable audio
+        </button>
+      )}
+      <label>
+        Volume
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={volume}
+          onChange={(event) => setVolume(Number(event.target.value))}
+        />
+      </label>
+      {hasAudioTrack === false && (
+        <span className="receiver-audio-warning">
+          The received stream has no audio track
+        </span>
+      )}
+    </div>
+  )
+}
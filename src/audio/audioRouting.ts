@@ -0,0 +1,13 @@
+import { AudioRouting } from '../web-rtc'
+
+export const AUDIO_ROUTING_LABELS: Record<AudioRouting, string> = {
+  [AudioRouting.PRIMARY]: 'Primary only',
+  [AudioRouting.SECONDARY]: 'Secondary only',
+  [AudioRouting.BOTH]: 'Both',
+}
+
+export const isAudibleOnPrimary = (routing: AudioRouting): boolean =>
+  routing !== AudioRouting.SECONDARY
+
+export const isAudibleOnSecondary = (routing: AudioRouting): boolean =>
+  routing !== AudioRouting.PRIMARY
@@ -0,0 +1,10 @@
+export { AudioRoutingSelect } from './AudioRoutingSelect'
+export {
+  AUDIO_ROUTING_LABELS,
+  isAudibleOnPrimary,
+  isAudibleOnSecondary,
+} from './audioRouting'
+export { ReceiverAudioControls } from './ReceiverAudioControls'
+export { usePrimaryAudio } from './usePrimaryAudio'
+export { useReceiverAudio } from './useReceiverAudio'
+export type { ReceiverAudio } from './useReceiverAudio'
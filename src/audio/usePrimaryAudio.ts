@@ -0,0 +1,53 @@
+import { type RefObject, useCallback, useEffect, useState } from 'react'
+
+import { EventCode } from '../event-log'
+import { AUTOPLAY_MUTED_EVENT, type AudioRouting } from '../web-rtc'
+
+import { isAudibleOnPrimary } from './audioRouting'
+
+/**
+ * Audio of the primary video: the browser may mute it to capture it without a
+ * user gesture, which a click undoes
+ */
+export function usePrimaryAudio(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  routing: AudioRouting,
+  report: (code: EventCode, message: string, error?: unknown) => void,
+) {
+  const [isAudioBlocked, setIsAudioBlocked] = useState(false)
+  const shouldPlayAudio = isAudibleOnPrimary(routing)
+
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || !shouldPlayAudio) {
+      setIsAudioBlocked(false)
+      return
+    }
+    const handleAutoplayMuted = () => {
+      setIsAudioBlocked(true)
+      report(
+        EventCode.AUTOPLAY_MUTED,
+        'The browser muted the video to share it, click to enable audio',
+      )
+    }
+    video.addEventListener(AUTOPLAY_MUTED_EVENT, handleAutoplayMuted)
+    return () => {
+      video.removeEventListener(AUTOPLAY_MUTED_EVENT, handleAutoplayMuted)
+    }
+  }, [report, shouldPlayAudio, videoRef])
+
+  // Enable audio from a click, which satisfies the autoplay policy
+  const enableAudio = useCallback(() => {
+    const video = videoRef.current
+    if (!video) {
+      return
+    }
+    video.muted = false
+    video.play().then(
+      () => setIsAudioBlocked(false),
+      () => setIsAudioBlocked(true),
+    )
+  }, [videoRef])
+
+  return { isAudioBlocked, enableAudio }
+}
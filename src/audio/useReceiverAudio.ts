@@ -0,0 +1,115 @@
+import { type RefObject, useCallback, useEffect, useState } from 'react'
+
+import { AudioRouting } from '../web-rtc'
+
+import { isAudibleOnSecondary } from './audioRouting'
+
+// Whether the page may start audible playback without a new user gesture
+const hasUserActivation = () => navigator.userActivation?.hasBeenActive ?? true
+
+/**
+ * Audio of the video element receiving the stream: follows the routing chosen
+ * on the primary window, with a volume of its own. Browsers only allow
+ * audible playback after a user gesture, so unmuting may need a click.
+ */
+export function useReceiverAudio(videoRef: RefObject<HTMLVideoElement | null>) {
+  const [routing, setRouting] = useState<AudioRouting>(AudioRouting.PRIMARY)
+  const [volume, setVolume] = useState(1)
+  const [isAudioBlocked, setIsAudioBlocked] = useState(false)
+  const [hasAudioTrack, setHasAudioTrack] = useState<boolean | null>(null)
+
+  const shouldPlayAudio = isAudibleOnSecondary(routing)
+
+  // Unmute the video, falling back to muted playback if autoplay is blocked
+  const unmute = useCallback(async () => {
+    const video = videoRef.current
+    if (!video) {
+      return
+    }
+    if (!hasUserActivation()) {
+      setIsAudioBlocked(true)
+      return
+    }
+    video.muted = false
+    try {
+      await video.play()
+      setIsAudioBlocked(false)
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotAllowedError') {
+        video.muted = true
+        video.play().catch(() => {
+          // Still blocked, the user will have to press play
+        })
+        setIsAudioBlocked(true)
+      }
+    }
+  }, [videoRef])
+
+  // Enable audio from a click, which satisfies the autoplay policy
+  const enableAudio = useCallback(() => {
+    const video = videoRef.current
+    if (!video) {
+      return
+    }
+    video.muted = false
+    video.play().then(
+      () => setIsAudioBlocked(false),
+      () => setIsAudioBlocked(true),
+    )
+  }, [videoRef])
+
+  // Follow the routing chosen on the primary window
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) {
+      return
+    }
+    if (shouldPlayAudio) {
+      unmute()
+    } else {
+      video.muted = true
+      setIsAudioBlocked(false)
+    }
+  }, [shouldPlayAudio, unmute, videoRef])
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.volume = volume
+    }
+  }, [videoRef, volume])
+
+  // Check whether the received stream carries audio at all
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) {
+      return
+    }
+    const checkAudioTrack = () => {
+      const stream = video.srcObject
+      setHasAudioTrack(
+        stream instanceof MediaStream
+          ? stream.getAudioTracks().length > 0
+          : null,
+      )
+    }
+    video.addEventListener('loadedmetadata', checkAudioTrack)
+    video.addEventListener('emptied', checkAudioTrack)
+    return () => {
+      video.removeEventListener('loadedmetadata', checkAudioTrack)
+      video.removeEventListener('emptied', checkAudioTrack)
+    }
+  }, [videoRef])
+
+  return {
+    routing,
+    setRouting,
+    shouldPlayAudio,
+    volume,
+    setVolume,
+    isAudioBlocked,
+    enableAudio,
+    hasAudioTrack,
+  }
+}
+
+export type ReceiverAudio = ReturnType<typeof useReceiverAudio>
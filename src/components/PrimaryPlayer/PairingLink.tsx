@@ -0,0 +1,35 @@
+import { useCallback, useState } from 'react'
+
+interface PairingLinkProps {
+  link: string
+}
+
+/**
+ * Link pairing a secondary tab opened by hand in this browser, which finds
+ * this window over the broadcast channel
+ */
+export function PairingLink({ link }: PairingLinkProps) {
+  const [isCopied, setIsCopied] = useState(false)
+
+  const copyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(link)
+      setIsCopied(true)
+    } catch {
+      setIsCopied(false)
+    }
+  }, [link])
+
+  return (
+    <div className="pairing-link">
+      Pair a tab opened by hand: open{' '}
+      <a href={link} target="_blank" rel="noreferrer">
+        this link
+      </a>{' '}
+      in it.{' '}
+      <button type="button" onClick={copyLink}>
+        {isCopied ? 'Copied' : 'Copy link'}
+      </button>
+    </div>
+  )
+}
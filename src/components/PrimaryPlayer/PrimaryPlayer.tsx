@@ -1,84 +1,249 @@
-import { useEffect } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 
+import { AnnotationCanvas } from '../../annotations'
+import {
+  AudioRoutingSelect,
+  isAudibleOnPrimary,
+  usePrimaryAudio,
+} from '../../audio'
+import { CompositorControls } from '../../compositor'
 import { useDualScreen } from '../../dual-screen'
+import { EventLogPanel } from '../../event-log'
+import { LatencyControls, usePlaybackDelay } from '../../latency'
+import { MediaSourceKind, MediaSourcePicker } from '../../media-source'
+import { Playlist, usePlaylist } from '../../playlist'
+import { QualityControls } from '../../quality'
+import { RecordingControls } from '../../recording'
+import {
+  DEFAULT_SECONDARY_ROUTE,
+  type SecondaryRoute,
+  watchPageUnload,
+} from '../../session'
+import { SubtitlePicker, useSubtitles } from '../../subtitles'
+import { PROTOCOL_VERSION, PeerRole, describeIceConfig } from '../../web-rtc'
+import { ScreenPicker, useScreenPlacement } from '../../window-placement'
 
+import { PairingLink } from './PairingLink'
+import { SecondaryRouteSettings } from './SecondaryRouteSettings'
+import { SecondaryWindowList } from './SecondaryWindowList'
 import { useVideo } from './useVideo'
 
 export function PrimaryPlayer() {
   const {
     videoRef,
     status,
+    report,
+    sessions,
     isSecondaryOpen,
     openSecondary,
     closeSecondary,
+    closeAllSecondaries,
+    suspendAllSecondaries,
+    focusSecondary,
+    subscribeStats,
     isPaused,
     togglePause,
+    getIceConfig,
+    broadcastCaptions,
+    audioRouting,
+    changeAudioRouting,
+    qualitySettings,
+    changeQualitySettings,
+    sourceKind,
+    previewStream,
+    changeSource,
+    compositorLayout,
+    changeCompositorLayout,
+    recorder,
+    startRecording,
+    annotations,
+    latencySettings,
+    changeLatencySettings,
+    primaryDelay,
+    pairingLink,
   } = useVideo()
 
-  const { isPrimaryScreen } = useDualScreen()
+  const { isPrimaryScreen, route } = useDualScreen()
+  const [secondaryRoute, setSecondaryRoute] = useState<SecondaryRoute>(
+    DEFAULT_SECONDARY_ROUTE,
+  )
 
-  // handler to ask the user for confirmation before leaving / reloading the primary screen when the secondary screen is open
-  useEffect(() => {
-    // handler to ask the user for confirmation before leaving / reloading the primary screen
-    function handleBeforeUnload(event: BeforeUnloadEvent) {
-      if (isPrimaryScreen && isSecondaryOpen) {
-        event.preventDefault()
-        event.returnValue = true
-      }
-    }
-    // handler to close the secondary screen when the user has confirmed to leave / reload the primary screen
-    function handlePageHide() {
-      if (isPrimaryScreen && isSecondaryOpen) {
-        closeSecondary()
-      }
-    }
+  const [showAnnotations, setShowAnnotations] = useState(true)
+  const placement = useScreenPlacement()
+  const playlist = usePlaylist(videoRef, report)
+  const subtitles = useSubtitles(videoRef, broadcastCaptions)
+  const delayCanvasRef = useRef<HTMLCanvasElement>(null)
+  usePlaybackDelay(videoRef, delayCanvasRef, primaryDelay)
+  const primaryAudio = usePrimaryAudio(videoRef, audioRouting, report)
 
-    window.addEventListener('beforeunload', handleBeforeUnload)
-    window.addEventListener('pagehide', handlePageHide)
-    return () => {
-      window.removeEventListener('beforeunload', handleBeforeUnload)
-      window.removeEventListener('pagehide', handlePageHide)
+  const getDiagnosticsDetails = useCallback(
+    () => ({
+      role: PeerRole.PRIMARY,
+      protocolVersion: PROTOCOL_VERSION,
+      ice: describeIceConfig(getIceConfig()),
+    }),
+    [getIceConfig],
+  )
+
+  // Leave the secondary windows open when the primary screen reloads, to be
+  // reattached by the next page. Otherwise ask before leaving and close them.
+  useEffect(() => {
+    if (!isPrimaryScreen) {
+      return
     }
-  }, [closeSecondary, isPrimaryScreen, isSecondaryOpen])
+    return watchPageUnload({
+      shouldConfirm: () => isSecondaryOpen,
+      onUnload: (isReload) =>
+        isReload ? suspendAllSecondaries() : closeAllSecondaries(),
+    })
+  }, [
+    closeAllSecondaries,
+    isPrimaryScreen,
+    isSecondaryOpen,
+    suspendAllSecondaries,
+  ])
 
   return (
     <div className="video-container primary">
       <h1>Video Sharing with WebRTC</h1>
-      <video
-        ref={videoRef}
-        controls
-        src="/winter.mp4"
-        playsInline
-        muted
-        loop
-        aria-label="Primary video player"
-      />
+      <div className="video-stage">
+        <video
+          ref={videoRef}
+          // Covered by the delayed picture, the buttons below still work
+          controls={primaryDelay === 0}
+          src={playlist.currentItem?.src}
+          crossOrigin="anonymous"
+          playsInline
+          muted={!isAudibleOnPrimary(audioRouting)}
+          // Without auto-advance the current item repeats
+          loop={!playlist.autoAdvance}
+          aria-label="Primary video player"
+        >
+          {subtitles.tracks.map((track) => (
+            <track
+              key={track.id}
+              kind="subtitles"
+              label={track.label}
+              src={track.src}
+              data-subtitle-id={track.id}
+            />
+          ))}
+        </video>
+        <canvas
+          ref={delayCanvasRef}
+          className="delayed-video"
+          hidden={primaryDelay === 0}
+          aria-hidden="true"
+        />
+        {showAnnotations && (
+          <AnnotationCanvas
+            videoRef={videoRef}
+            annotations={annotations}
+            getCurrentTime={() => videoRef.current?.currentTime ?? null}
+          />
+        )}
+      </div>
 
       <div className="controls">
         <button
           type="button"
-          onClick={openSecondary}
-          disabled={isSecondaryOpen}
+          onClick={() =>
+            openSecondary(placement.getOpenOptions(), secondaryRoute)
+          }
         >
           Open Secondary Window
         </button>
 
         <button
           type="button"
-          onClick={closeSecondary}
+          onClick={closeAllSecondaries}
           disabled={!isSecondaryOpen}
         >
-          Close Secondary Window
+          Close All Secondary Windows
         </button>
 
         <button type="button" onClick={togglePause}>
           {isPaused ? 'Play' : 'Pause'}
         </button>
+
+        <AudioRoutingSelect
+          routing={audioRouting}
+          onChange={changeAudioRouting}
+        />
+        {primaryAudio.isAudioBlocked && (
+          <button type="button" onClick={primaryAudio.enableAudio}>
+            Click to enable audio
+          </button>
+        )}
+
+        <label>
+          <input
+            type="checkbox"
+            checked={showAnnotations}
+            onChange={(event) => setShowAnnotations(event.target.checked)}
+          />
+          Show annotations
+        </label>
       </div>
 
-      {status.message && (
+      <ScreenPicker placement={placement} />
+
+      <SecondaryRouteSettings
+        route={secondaryRoute}
+        onChange={setSecondaryRoute}
+      />
+
+      <MediaSourcePicker
+        kind={sourceKind}
+        previewStream={
+          sourceKind === MediaSourceKind.COMPOSITE ? null : previewStream
+        }
+        onChange={changeSource}
+      />
+
+      {sourceKind === MediaSourceKind.COMPOSITE && (
+        <CompositorControls
+          layout={compositorLayout}
+          onChange={changeCompositorLayout}
+          previewStream={previewStream}
+        />
+      )}
+
+      <RecordingControls
+        recorder={recorder}
+        onStart={startRecording}
+        canStart={isSecondaryOpen}
+      />
+
+      <SubtitlePicker subtitles={subtitles} />
+
+      <QualityControls
+        settings={qualitySettings}
+        onChange={changeQualitySettings}
+      />
+
+      <LatencyControls
+        settings={latencySettings}
+        onChange={changeLatencySettings}
+        primaryDelay={primaryDelay}
+      />
+
+      <Playlist playlist={playlist} />
+
+      <PairingLink link={pairingLink} />
+
+      <SecondaryWindowList
+        sessions={sessions}
+        onFocus={focusSecondary}
+        onClose={closeSecondary}
+        subscribeStats={subscribeStats}
+      />
+
+      {route.view.status && status.message && (
         <div className="web-rtc-status">Status: {status.message}</div>
       )}
+
+      <EventLogPanel getDetails={getDiagnosticsDetails} />
     </div>
   )
 }
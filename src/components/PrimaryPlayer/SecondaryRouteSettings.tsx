@@ -0,0 +1,90 @@
+import {
+  FIT_MODE_LABELS,
+  FitMode,
+  ScreenRole,
+  getDefaultViewOptions,
+} from '../../dual-screen'
+import type { SecondaryRoute } from '../../session'
+
+// Roles a window opened from here can take
+const ROLE_LABELS = {
+  [ScreenRole.SECONDARY]: 'Secondary window',
+  [ScreenRole.VIEWER]: 'Viewer (video only)',
+}
+
+type OpenedRole = keyof typeof ROLE_LABELS
+
+interface SecondaryRouteSettingsProps {
+  route: SecondaryRoute
+  onChange: (route: SecondaryRoute) => void
+}
+
+/** How the next secondary window shows the video */
+export function SecondaryRouteSettings({
+  route,
+  onChange,
+}: SecondaryRouteSettingsProps) {
+  const { role, view } = route
+
+  return (
+    <div className="secondary-route-settings">
+      <label>
+        Open as
+        <select
+          value={role}
+          onChange={(event) => {
+            const role = event.target.value as OpenedRole
+            onChange({ role, view: getDefaultViewOptions(role) })
+          }}
+        >
+          {Object.entries(ROLE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Video
+        <select
+          value={view.fit}
+          onChange={(event) =>
+            onChange({
+              role,
+              view: { ...view, fit: event.target.value as FitMode },
+            })
+          }
+        >
+          {Object.values(FitMode).map((value) => (
+            <option key={value} value={value}>
+              {FIT_MODE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={view.controls}
+          onChange={(event) =>
+            onChange({
+              role,
+              view: { ...view, controls: event.target.checked },
+            })
+          }
+        />
+        Controls
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={view.status}
+          onChange={(event) =>
+            onChange({ role, view: { ...view, status: event.target.checked } })
+          }
+        />
+        Status
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import { useCallback } from 'react'
+
+import { LatencyFigure } from '../../latency'
+import type { SecondaryWindowInfo } from '../../session'
+import { StatsPanel } from '../../stats'
+import type { StatsListener } from '../../web-rtc'
+
+interface SecondaryWindowItemProps {
+  session: SecondaryWindowInfo
+  onFocus: (id: string) => void
+  onClose: (id: string) => void
+  subscribeStats: (id: string, listener: StatsListener) => () => void
+}
+
+function SecondaryWindowItem({
+  session,
+  onFocus,
+  onClose,
+  subscribeStats,
+}: SecondaryWindowItemProps) {
+  const subscribe = useCallback(
+    (listener: StatsListener) => subscribeStats(session.id, listener),
+    [session.id, subscribeStats],
+  )
+
+  return (
+    <li>
+      <div className="secondary-window-header">
+        <span className="secondary-window-label">{session.label}</span>
+        <span
+          className={`secondary-window-status${session.status.isError ? ' error' : ''}`}
+        >
+          {session.status.message}
+        </span>
+        <button
+          type="button"
+          onClick={() => onFocus(session.id)}
+          disabled={!session.canFocus}
+          title={
+            session.canFocus
+              ? undefined
+              : 'This tab was not opened from here and cannot be focused'
+          }
+        >
+          Focus
+        </button>
+        <button type="button" onClick={() => onClose(session.id)}>
+          Close
+        </button>
+      </div>
+      <LatencyFigure
+        glassToGlass={session.latency?.glassToGlass ?? null}
+        estimate={session.latency}
+      />
+      <StatsPanel subscribe={subscribe} />
+    </li>
+  )
+}
+
+interface SecondaryWindowListProps {
+  sessions: SecondaryWindowInfo[]
+  onFocus: (id: string) => void
+  onClose: (id: string) => void
+  subscribeStats: (id: string, listener: StatsListener) => () => void
+}
+
+export function SecondaryWindowList({
+  sessions,
+  onFocus,
+  onClose,
+  subscribeStats,
+}: SecondaryWindowListProps) {
+  if (sessions.length === 0) {
+    return null
+  }
+  return (
+    <ul className="secondary-window-list" aria-label="Secondary windows">
+      {sessions.map((session) => (
+        <SecondaryWindowItem
+          key={session.id}
+          session={session}
+          onFocus={onFocus}
+          onClose={onClose}
+          subscribeStats={subscribeStats}
+        />
+      ))}
+    </ul>
+  )
+}
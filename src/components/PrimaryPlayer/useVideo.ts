@@ -1,190 +1,240 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 
-import { PeerRole, WebRTConnectionService } from '../../web-rtc'
+import {
+  AudioRouting,
+  type CaptionCue,
+  type ChannelMessage,
+  DEFAULT_QUALITY_SETTINGS,
+  type QualitySettings,
+  type StatsListener,
+} from '../../web-rtc'
+import { useAnnotations } from '../../annotations'
+import {
+  type CompositorLayout,
+  DEFAULT_COMPOSITOR_LAYOUT,
+} from '../../compositor'
+import { EventCode } from '../../event-log'
+import { DEFAULT_LATENCY_SETTINGS, type LatencySettings } from '../../latency'
+import { MediaSourceKind } from '../../media-source'
+import { useRecorder } from '../../recording'
+import {
+  PrimaryScreenSession,
+  type SecondaryRoute,
+  type SecondaryWindowInfo,
+  WindowBlockedError,
+} from '../../session'
+import { useDualScreenSession } from '../../session/react'
 import { useStatus } from '../../useStatus'
+import type { OpenWindowOptions } from '../../window-placement'
 
 export const useVideo = () => {
-  const { status, updateStatus } = useStatus()
+  const { status, report, reportEvent, clearStatus } = useStatus()
 
   const videoRef = useRef<HTMLVideoElement>(null)
-  const [isPaused, setIsPaused] = useState(false)
 
-  const secondaryRef = useRef<Window | null>(null)
-  const [isSecondaryOpen, setIsSecondaryOpen] = useState(false)
-  const secondaryCheckIntervalRef = useRef<number | null>(null)
-
-  const webRTCServiceRef = useRef<WebRTConnectionService | null>(null)
-
-  // Clean up resources
-  const cleanup = useCallback(() => {
-    // Clear the window check interval
-    if (secondaryCheckIntervalRef.current) {
-      clearInterval(secondaryCheckIntervalRef.current)
-      secondaryCheckIntervalRef.current = null
+  // What a secondary window gets once it is connected besides the state the
+  // session keeps, set below
+  const getInitialMessagesRef = useRef<() => ChannelMessage[]>(() => [])
+
+  // Window lifecycle, signaling, shared source and playback commands of the
+  // secondary windows
+  const [session] = useState(
+    () =>
+      new PrimaryScreenSession({
+        getVideo: () => videoRef.current,
+        getInitialMessages: () => getInitialMessagesRef.current(),
+      }),
+  )
+  const { isPaused } = useDualScreenSession(session, reportEvent)
+  const [sessions, setSessions] = useState<SecondaryWindowInfo[]>(() =>
+    session.getWindows(),
+  )
+  const [sourceKind, setSourceKind] = useState<MediaSourceKind>(
+    MediaSourceKind.VIDEO,
+  )
+  // Stream of a source other than the video player, previewed on the primary
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null)
+  // Milliseconds the primary screen shows the video late
+  const [primaryDelay, setPrimaryDelay] = useState(0)
+
+  // Outgoing media, recorded as sent to the secondary windows
+  const recorder = useRecorder(report)
+  const { start: startRecorder, stop: stopRecording } = recorder
+  const startRecording = useCallback(async () => {
+    const stream = session.getSharedStream()
+    if (!stream) {
+      report(EventCode.RECORDING_FAILED, 'Nothing is shared yet')
+      return
     }
-    // Clean up WebRTC service
-    if (webRTCServiceRef.current) {
-      webRTCServiceRef.current.cleanup()
-      webRTCServiceRef.current = null
+    try {
+      startRecorder(await stream)
+    } catch (error) {
+      report(EventCode.RECORDING_FAILED, 'Could not record the source', error)
     }
-    updateStatus('')
-  }, [updateStatus])
-
-  // Handle messages from secondary window
-  const handleMessage = useCallback(
-    (message: unknown) => {
-      if (typeof message !== 'string') {
-        return
-      }
-      if (message === 'windowClosed') {
-        setIsSecondaryOpen(false)
-        cleanup()
-      } else if (message === 'windowReloading') {
-        // Secondary window is reloading - don't destroy connection yet
-        updateStatus('Secondary window is reloading...')
-      } else if (message === 'windowReloaded' || message === 'windowReady') {
-        // When secondary window is ready after reload or initial load, start WebRTC setup
-        updateStatus('Secondary window is ready, setting up connection...')
-        // Create offer to start the connection
-        if (videoRef.current) {
-          webRTCServiceRef.current?.createOffer(videoRef.current)
-        }
-      } else if (message === 'play') {
-        if (videoRef.current) {
-          videoRef.current.play()
-          setIsPaused(false)
-        }
-      } else if (message === 'pause') {
-        if (videoRef.current) {
-          videoRef.current.pause()
-          setIsPaused(true)
+  }, [report, session, startRecorder])
+
+  // Annotations drawn on the secondary windows, shown over the video
+  const annotations = useAnnotations(isPaused)
+  const { receive: receiveAnnotations, toMessage: getAnnotationsMessage } =
+    annotations
+  getInitialMessagesRef.current = () => [getAnnotationsMessage()]
+
+  useEffect(() => {
+    const unsubscribes = [
+      session.on('windowsChange', ({ windows }) => setSessions(windows)),
+      session.on('sourceChange', ({ kind, preview }) => {
+        setSourceKind(kind)
+        setPreviewStream(preview)
+      }),
+      session.on('primaryDelayChange', ({ delay }) => setPrimaryDelay(delay)),
+      session.on('annotations', ({ message }) => receiveAnnotations(message)),
+      // The recording ends when nobody receives the source anymore
+      session.on('disconnected', () => {
+        if (session.getWindows().length === 0) {
+          stopRecording()
+          clearStatus()
         }
+      }),
+    ]
+    return () => {
+      for (const unsubscribe of unsubscribes) {
+        unsubscribe()
       }
-    },
-    [cleanup, updateStatus],
-  )
-  // Setup WebRTC service
-  const setupWebRTCService = useCallback(() => {
-    if (!webRTCServiceRef.current) {
-      webRTCServiceRef.current = new WebRTConnectionService(
-        PeerRole.PRIMARY,
-        secondaryRef.current,
-        videoRef.current,
-        updateStatus,
-        handleMessage,
-      )
     }
-  }, [handleMessage, updateStatus])
+  }, [clearStatus, receiveAnnotations, session, stopRecording])
 
-  // Open a secondary window to display the video
-  const openSecondary = useCallback(async () => {
-    if (secondaryRef.current && !secondaryRef.current.closed) {
-      secondaryRef.current.focus()
-      return
-    }
-    try {
-      // Clean up any existing connection first
-      cleanup()
-
-      updateStatus('Opening second window...')
-
-      // Open a new window with the same app but with secondary parameter
-      const secondaryUrl = `${window.location.origin}${window.location.pathname}?secondary=true`
-      const newWindow = window.open(
-        secondaryUrl,
-        '_blank',
-        'width=1024,height=768',
-      )
-      if (!newWindow) {
-        alert('Please allow pop-ups for this website')
-        updateStatus('')
-        return
-      }
-      secondaryRef.current = newWindow
-      setIsSecondaryOpen(true)
-      updateStatus('Waiting for second window to load...')
-
-      // Set up WebRTC service
-      setupWebRTCService()
-
-      // Setup message listener function
-      const messageListener = (event: MessageEvent) => {
-        // Only process messages from our secondary window
-        if (event.source === secondaryRef.current && webRTCServiceRef.current) {
-          webRTCServiceRef.current.handleMessage(event)
-        }
-      }
+  // Share another source, switching the tracks of the existing connections
+  const changeSource = useCallback(
+    (kind: MediaSourceKind) => session.changeSource(kind),
+    [session],
+  )
 
-      // Add message listener
-      window.addEventListener('message', messageListener)
+  // Layout of the picture-in-picture source, kept when switching sources
+  const [compositorLayout, setCompositorLayout] = useState<CompositorLayout>(
+    DEFAULT_COMPOSITOR_LAYOUT,
+  )
+  const changeCompositorLayout = useCallback(
+    (layout: CompositorLayout) => {
+      setCompositorLayout(layout)
+      session.setCompositorLayout(layout)
+    },
+    [session],
+  )
 
-      // Check if the window is closed periodically
-      const checkWindowLoaded = setInterval(() => {
-        if (newWindow.closed) {
-          clearInterval(checkWindowLoaded)
-          setIsSecondaryOpen(false)
-          window.removeEventListener('message', messageListener)
-          cleanup()
-        }
-      }, 500)
-      // Store the interval ID to clear it if needed
-      secondaryCheckIntervalRef.current = checkWindowLoaded
-    } catch (error) {
-      updateStatus(
-        `Error opening second window: ${error instanceof Error ? error.message : String(error)}`,
-        true,
-      )
-    }
-  }, [cleanup, setupWebRTCService, updateStatus])
-
-  // Close the second window
-  const closeSecondary = useCallback(() => {
-    if (secondaryRef.current && !secondaryRef.current.closed) {
-      secondaryRef.current.close()
-      secondaryRef.current = null
-      setIsSecondaryOpen(false)
-      cleanup()
-    }
-  }, [cleanup])
+  // Caption cues currently shown, sent to every secondary window
+  const broadcastCaptions = useCallback(
+    (cues: CaptionCue[]) => session.setCaptions(cues),
+    [session],
+  )
 
-  // Toggle video pause
-  const togglePause = useCallback(() => {
-    if (!videoRef.current) return
+  // Where the audio plays, the secondary windows unmute themselves if needed
+  const [audioRouting, setAudioRouting] = useState<AudioRouting>(
+    AudioRouting.PRIMARY,
+  )
+  const changeAudioRouting = useCallback(
+    (routing: AudioRouting) => {
+      setAudioRouting(routing)
+      session.setAudioRouting(routing)
+    },
+    [session],
+  )
 
-    if (videoRef.current.paused) {
-      videoRef.current.play()
-      setIsPaused(false)
+  // Encoding of the video sent to every secondary window
+  const [qualitySettings, setQualitySettings] = useState<QualitySettings>(
+    DEFAULT_QUALITY_SETTINGS,
+  )
+  const changeQualitySettings = useCallback(
+    (settings: QualitySettings) => {
+      setQualitySettings(settings)
+      session.setQualitySettings(settings)
+    },
+    [session],
+  )
 
-      // Notify secondary window
-      if (webRTCServiceRef.current) {
-        webRTCServiceRef.current.sendMessage('play')
-      }
-    } else {
-      videoRef.current.pause()
-      setIsPaused(true)
+  // Latency measurement and how the screens are kept in sync
+  const [latencySettings, setLatencySettings] = useState<LatencySettings>(
+    DEFAULT_LATENCY_SETTINGS,
+  )
+  const changeLatencySettings = useCallback(
+    (settings: LatencySettings) => {
+      setLatencySettings(settings)
+      session.setLatencySettings(settings)
+    },
+    [session],
+  )
 
-      // Notify secondary window
-      if (webRTCServiceRef.current) {
-        webRTCServiceRef.current.sendMessage('pause')
+  // Open a new secondary window to display the video
+  const openSecondary = useCallback(
+    async (options?: OpenWindowOptions, route?: SecondaryRoute) => {
+      try {
+        await session.open(options, route)
+      } catch (error) {
+        // Other failures are reported by the session
+        if (error instanceof WindowBlockedError) {
+          alert('Please allow pop-ups for this website')
+        }
       }
-    }
-  }, [])
+    },
+    [session],
+  )
 
-  // Clean up when component unmounts
-  useEffect(() => {
-    return () => {
-      closeSecondary()
-    }
-  }, [closeSecondary])
+  // Leave the secondary windows open while this page unloads, e.g. for a
+  // reload, so the next page can reattach them
+  const suspendAllSecondaries = useCallback(() => {
+    session.suspend()
+    stopRecording()
+  }, [session, stopRecording])
+
+  const closeSecondary = useCallback(
+    (id: string) => session.close(id),
+    [session],
+  )
+  const closeAllSecondaries = useCallback(() => session.closeAll(), [session])
+  const focusSecondary = useCallback(
+    (id: string) => session.focus(id),
+    [session],
+  )
+  const subscribeStats = useCallback(
+    (id: string, listener: StatsListener) =>
+      session.subscribeStats(id, listener),
+    [session],
+  )
+  const togglePause = useCallback(() => session.togglePause(), [session])
+
+  // Connection settings in use, for the diagnostics
+  const getIceConfig = useCallback(() => session.getIceConfig(), [session])
 
   return {
     status,
-    updateStatus,
-    isSecondaryOpen,
+    report,
+    sessions,
+    isSecondaryOpen: sessions.length > 0,
     openSecondary,
     closeSecondary,
+    closeAllSecondaries,
+    suspendAllSecondaries,
+    focusSecondary,
+    subscribeStats,
     videoRef,
     isPaused,
     togglePause,
+    getIceConfig,
+    broadcastCaptions,
+    audioRouting,
+    changeAudioRouting,
+    qualitySettings,
+    changeQualitySettings,
+    sourceKind,
+    previewStream,
+    changeSource,
+    compositorLayout,
+    changeCompositorLayout,
+    recorder,
+    startRecording,
+    annotations,
+    latencySettings,
+    changeLatencySettings,
+    primaryDelay,
+    pairingLink: session.pairingLink,
   }
 }
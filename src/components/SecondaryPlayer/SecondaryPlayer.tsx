@@ -1,51 +1,137 @@
 import { useCallback } from 'react'
 
+import { AnnotationCanvas, AnnotationToolbar } from '../../annotations'
+import { ReceiverAudioControls } from '../../audio'
+import { ScreenRole, useDualScreen } from '../../dual-screen'
+import { EventCode, EventLogPanel } from '../../event-log'
+import { LatencyFigure } from '../../latency'
+import { PlaybackControls, estimateCurrentTime } from '../../playback'
+import { RecordingControls } from '../../recording'
+import { StatsPanel } from '../../stats'
+import {
+  CaptionOverlay,
+  CaptionSettingsPanel,
+  useCaptionSettings,
+} from '../../subtitles'
+import { PROTOCOL_VERSION, PeerRole, describeIceConfig } from '../../web-rtc'
+import { useSecondaryWindowPlacement } from '../../window-placement'
+
 import { useVideo } from './useVideo'
 
 export function SecondaryPlayer() {
-  const { videoRef, status, updateStatus, togglePause, isPaused } = useVideo()
+  const {
+    videoRef,
+    status,
+    report,
+    togglePause,
+    getIceConfig,
+    isPaused,
+    playbackState,
+    sendPlaybackCommand,
+    captions,
+    audio,
+    subscribeStats,
+    glassToGlass,
+    recorder,
+    startRecording,
+    annotations,
+  } = useVideo()
+  const { settings: captionSettings, updateSettings: updateCaptionSettings } =
+    useCaptionSettings()
+  const { needsGesture: needsFullscreenGesture } = useSecondaryWindowPlacement()
+  const {
+    route: { role, view },
+  } = useDualScreen()
 
   const handleVideoError = useCallback(
     (e: React.SyntheticEvent<HTMLVideoElement, Event>) => {
-      updateStatus(
-        `Video error occurred. Check console for details: ${e}`,
-        true,
+      report(
+        EventCode.PLAYBACK_FAILED,
+        'Video error occurred',
+        e.currentTarget.error?.message || 'unknown error',
       )
     },
-    [updateStatus],
+    [report],
   )
 
   const handleVideoPlay = useCallback(() => {
-    updateStatus('Video playing')
-  }, [updateStatus])
+    report(EventCode.PLAYBACK_STARTED, 'Video playing')
+  }, [report])
+
+  const getDiagnosticsDetails = useCallback(
+    () => ({
+      role: PeerRole.SECONDARY,
+      protocolVersion: PROTOCOL_VERSION,
+      ice: describeIceConfig(getIceConfig()),
+    }),
+    [getIceConfig],
+  )
 
   return (
-    <div className="video-container secondary">
-      <h1>Video Streaming Receiver (via WebRTC)</h1>
-      <div className="web-rtc-status">Status: {status.message}</div>
-      <video
-        ref={videoRef}
-        autoPlay
-        playsInline
-        controls
-        muted
-        loop
-        onError={handleVideoError}
-        onPlay={handleVideoPlay}
-        aria-label="Received video stream from primary window"
-      />
-
-      <button
-        type="button"
-        onClick={togglePause}
-        className="video-play-pause-button"
-      >
-        {isPaused ? 'play' : 'pause'}
-      </button>
-
-      <p>
-        This window is receiving a WebRTC video stream from the main window.
-      </p>
+    <div
+      className={`video-container secondary${view.controls ? '' : ' kiosk'}`}
+    >
+      {view.controls && <h1>Video Streaming Receiver (via WebRTC)</h1>}
+      {view.status && (
+        <div className="web-rtc-status">Status: {status.message}</div>
+      )}
+      <div className={`video-stage fit-${view.fit}`}>
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          loop
+          onError={handleVideoError}
+          onPlay={handleVideoPlay}
+          aria-label="Received video stream from primary window"
+        />
+        <AnnotationCanvas
+          videoRef={videoRef}
+          annotations={annotations}
+          getCurrentTime={() =>
+            playbackState && estimateCurrentTime(playbackState)
+          }
+          editable={role !== ScreenRole.VIEWER}
+        />
+        <CaptionOverlay cues={captions} settings={captionSettings} />
+        {needsFullscreenGesture && (
+          <div className="fullscreen-hint">Click anywhere to go fullscreen</div>
+        )}
+      </div>
+
+      {view.controls && (
+        <>
+          <PlaybackControls
+            state={playbackState}
+            isPaused={isPaused}
+            onTogglePause={togglePause}
+            onCommand={sendPlaybackCommand}
+            readOnly={role === ScreenRole.VIEWER}
+          />
+
+          <AnnotationToolbar annotations={annotations} />
+
+          <ReceiverAudioControls audio={audio} />
+
+          <RecordingControls recorder={recorder} onStart={startRecording} />
+
+          <CaptionSettingsPanel
+            settings={captionSettings}
+            onChange={updateCaptionSettings}
+          />
+
+          <LatencyFigure glassToGlass={glassToGlass} />
+
+          <StatsPanel subscribe={subscribeStats} />
+
+          <EventLogPanel getDetails={getDiagnosticsDetails} />
+
+          <p>
+            This window is receiving a WebRTC video stream from the main window.
+          </p>
+        </>
+      )}
     </div>
   )
 }
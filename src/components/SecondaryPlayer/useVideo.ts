@@ -1,132 +1,110 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 
-import { PeerRole, WebRTConnectionService } from '../../web-rtc'
+import type {
+  CaptionCue,
+  PlaybackCommand,
+  PlaybackState,
+  StatsListener,
+} from '../../web-rtc'
+import { useAnnotations } from '../../annotations'
+import { useReceiverAudio } from '../../audio'
+import { ScreenRole, useDualScreen } from '../../dual-screen'
+import { EventCode } from '../../event-log'
+import { SecondaryScreenSession } from '../../session'
+import { useDualScreenSession } from '../../session/react'
+import { useRecorder } from '../../recording'
 import { useStatus } from '../../useStatus'
 
 export function useVideo() {
-  const { status, updateStatus } = useStatus()
+  const { status, report, reportEvent } = useStatus()
+  const { route } = useDualScreen()
 
   const videoRef = useRef<HTMLVideoElement>(null)
-  const [isPaused, setIsPaused] = useState(false)
+  const [playbackState, setPlaybackState] = useState<PlaybackState | null>(null)
+  const [captions, setCaptions] = useState<CaptionCue[]>([])
+  const [glassToGlass, setGlassToGlass] = useState<number | null>(null)
+  const audio = useReceiverAudio(videoRef)
+  const { setRouting: setAudioRouting } = audio
+  const recorder = useRecorder(report)
+  const { start: startRecorder, stop: stopRecording } = recorder
 
-  const webRTCServiceRef = useRef<WebRTConnectionService | null>(null)
+  // Pairing, signaling and playback commands with the primary window
+  const [session] = useState(
+    () =>
+      new SecondaryScreenSession({
+        getVideo: () => videoRef.current,
+        sessionId: route.sessionId,
+        // A viewer only shows the video
+        controlsPlayback: route.role !== ScreenRole.VIEWER,
+      }),
+  )
+  const { isPaused } = useDualScreenSession(session, reportEvent)
 
-  const togglePause = useCallback(() => {
-    if (videoRef.current === null) {
-      return
-    }
-    if (videoRef.current.paused) {
-      videoRef.current.play()
-      setIsPaused(false)
-      if (window.opener && webRTCServiceRef.current) {
-        webRTCServiceRef.current.sendMessage('play')
-      }
-    } else {
-      videoRef.current.pause()
-      setIsPaused(true)
-      if (window.opener && webRTCServiceRef.current) {
-        webRTCServiceRef.current.sendMessage('pause')
-      }
-    }
-  }, [])
-
-  const handleMessage = useCallback((message: unknown) => {
-    if (typeof message !== 'string') {
-      return
-    }
-    if (message === 'play' && videoRef.current) {
-      videoRef.current.play()
-      setIsPaused(false)
-    } else if (message === 'pause' && videoRef.current) {
-      videoRef.current.pause()
-      setIsPaused(true)
-    }
-  }, [])
-
-  // Set up WebRTC service
-  const setupWebRTCService = useCallback(() => {
-    // Clean up existing service if present
-    if (webRTCServiceRef.current) {
-      webRTCServiceRef.current.cleanup()
-      webRTCServiceRef.current = null
-    }
-    if (!window.opener || !videoRef.current) {
-      updateStatus(
-        'Error: Unable to establish connection with primary window',
-        true,
-      )
-      return
-    }
-    webRTCServiceRef.current = new WebRTConnectionService(
-      PeerRole.SECONDARY,
-      window.opener,
-      videoRef.current,
-      updateStatus,
-      handleMessage,
-    )
-  }, [handleMessage, updateStatus])
+  // Annotations drawn here are mirrored to the primary window
+  const annotations = useAnnotations(isPaused, (message) =>
+    session.send(message),
+  )
+  const { receive: receiveAnnotations } = annotations
 
-  // Set up message listener for secondary window
   useEffect(() => {
-    updateStatus('Waiting for connection from primary window...')
-
-    // Setup WebRTC service
-    setupWebRTCService()
-
-    const handleBeforeUnload = () => {
-      // Notify primary we're reloading, not closing
-      if (webRTCServiceRef.current) {
-        webRTCServiceRef.current.sendMessage('windowReloading')
+    const unsubscribes = [
+      session.on('playbackState', ({ state }) => setPlaybackState(state)),
+      session.on('captions', ({ cues }) => setCaptions(cues)),
+      session.on('audioRouting', ({ routing }) => setAudioRouting(routing)),
+      session.on('annotations', ({ message }) => receiveAnnotations(message)),
+      session.on('glassToGlass', ({ latency }) => setGlassToGlass(latency)),
+      // The recording ends with the connection
+      session.on('disconnected', () => stopRecording()),
+    ]
+    return () => {
+      for (const unsubscribe of unsubscribes) {
+        unsubscribe()
       }
     }
-    // Send message to opener when this window is closed or reloaded
-    window.addEventListener('beforeunload', handleBeforeUnload)
+  }, [receiveAnnotations, session, setAudioRouting, stopRecording])
 
-    // Handle messages from the primary window
-    const messageListener = (event: MessageEvent) => {
-      if (event.source === window.opener && webRTCServiceRef.current) {
-        webRTCServiceRef.current.handleMessage(event)
-      }
-    }
-    window.addEventListener('message', messageListener)
+  const togglePause = useCallback(() => session.togglePause(), [session])
 
-    // Signal to the opener that this window is ready to receive connections
-    const signalReady = () => {
-      if (window.opener && webRTCServiceRef.current) {
-        // Check if this is a page reload using sessionStorage
-        const isReload = sessionStorage.getItem('wasLoaded') === 'true'
-        if (isReload) {
-          // This is a reload, send special message
-          webRTCServiceRef.current.sendMessage('windowReloaded')
-        } else {
-          // First load
-          sessionStorage.setItem('wasLoaded', 'true')
-          webRTCServiceRef.current.sendMessage('windowReady')
-        }
-        updateStatus('Ready signal sent, waiting for video...')
-      } else {
-        updateStatus('Error: No opener window found', true)
-      }
-    }
-    // Signal ready to the parent window after a short delay to ensure everything is loaded
-    setTimeout(signalReady, 500)
+  // Connection settings in use, for the diagnostics
+  const getIceConfig = useCallback(() => session.getIceConfig(), [session])
 
-    return () => {
-      window.removeEventListener('beforeunload', handleBeforeUnload)
-      window.removeEventListener('message', messageListener)
+  // Ask the primary window to change its playback
+  const sendPlaybackCommand = useCallback(
+    (command: PlaybackCommand) => session.sendPlaybackCommand(command),
+    [session],
+  )
 
-      if (webRTCServiceRef.current) {
-        webRTCServiceRef.current.cleanup()
-        webRTCServiceRef.current = null
-      }
+  // Listen for the connection statistics
+  const subscribeStats = useCallback(
+    (listener: StatsListener) => session.subscribeStats(listener),
+    [session],
+  )
+
+  // Record the received stream, across pauses and until the session ends
+  const startRecording = useCallback(() => {
+    const stream = videoRef.current?.srcObject
+    if (stream instanceof MediaStream) {
+      startRecorder(stream)
+    } else {
+      report(EventCode.RECORDING_FAILED, 'No video received yet')
     }
-  }, [setupWebRTCService, updateStatus])
+  }, [report, startRecorder])
 
   return {
     status,
-    updateStatus,
+    report,
     togglePause,
+    getIceConfig,
     isPaused,
+    playbackState,
+    sendPlaybackCommand,
+    captions,
+    audio,
+    subscribeStats,
+    glassToGlass,
+    recorder,
+    startRecording,
+    annotations,
     videoRef,
   }
 }
@@ -0,0 +1,75 @@
+import { useCallback, useRef, useState } from 'react'
+
+import { EventLogPanel } from '../../event-log'
+import { DEFAULT_PLAYLIST } from '../../playlist'
+import { SelfTestResults, useSelfTest } from '../../self-test'
+import { PROTOCOL_VERSION, describeIceConfig } from '../../web-rtc'
+
+// Video to send, e.g. ?role=selftest&video=/other.mp4
+const VIDEO_SEARCH_PARAM_NAME = 'video'
+
+const getVideoSrc = () =>
+  new URLSearchParams(window.location.search).get(VIDEO_SEARCH_PARAM_NAME) ??
+  DEFAULT_PLAYLIST.items[0].src
+
+/**
+ * Diagnostics page connecting a primary and a secondary inside this page, to
+ * tell which step fails when a secondary window stays black
+ */
+export function SelfTest() {
+  const primaryVideoRef = useRef<HTMLVideoElement>(null)
+  const secondaryVideoRef = useRef<HTMLVideoElement>(null)
+  const [videoSrc] = useState(getVideoSrc)
+  const { results, isRunning, start, getIceConfig } = useSelfTest(
+    primaryVideoRef,
+    secondaryVideoRef,
+    videoSrc,
+  )
+
+  const getDiagnosticsDetails = useCallback(() => {
+    const iceConfig = getIceConfig()
+    return {
+      role: 'selfTest',
+      protocolVersion: PROTOCOL_VERSION,
+      ice: iceConfig && describeIceConfig(iceConfig),
+      selfTest: results,
+    }
+  }, [getIceConfig, results])
+
+  return (
+    <div className="video-container self-test">
+      <h1>Self-test</h1>
+      <div className="self-test-videos">
+        <figure>
+          <video
+            ref={primaryVideoRef}
+            crossOrigin="anonymous"
+            playsInline
+            muted
+            loop
+            aria-label="Video sent by the test primary"
+          />
+          <figcaption>Sent</figcaption>
+        </figure>
+        <figure>
+          <video
+            ref={secondaryVideoRef}
+            autoPlay
+            playsInline
+            muted
+            aria-label="Video received by the test secondary"
+          />
+          <figcaption>Received</figcaption>
+        </figure>
+      </div>
+
+      <SelfTestResults results={results} />
+
+      <button type="button" onClick={start} disabled={isRunning}>
+        Run again
+      </button>
+
+      <EventLogPanel getDetails={getDiagnosticsDetails} />
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { SelfTest } from './SelfTest'
@@ -0,0 +1,327 @@
+import { type FrameMarkerLog, drawFrameMarker } from '../latency/frameMarker'
+import { captureVideoStreamWhenReady } from '../web-rtc'
+
+import {
+  type CompositorLayout,
+  InsetSource,
+  type NormalizedRect,
+} from './compositorLayout'
+
+// Size of the output until the main video knows its own
+const DEFAULT_WIDTH = 1280
+const DEFAULT_HEIGHT = 720
+
+type Drawable = HTMLVideoElement | HTMLImageElement
+
+const isReady = (source: Drawable) =>
+  source instanceof HTMLVideoElement
+    ? source.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA &&
+      source.videoWidth > 0
+    : source.complete && source.naturalWidth > 0
+
+const getSize = (source: Drawable) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.naturalWidth, height: source.naturalHeight }
+
+// Draw a source into a rectangle, cropped to fill it
+const drawCover = (
+  context: CanvasRenderingContext2D,
+  source: Drawable,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) => {
+  const size = getSize(source)
+  const scale = Math.max(width / size.width, height / size.height)
+  const cropWidth = width / scale
+  const cropHeight = height / scale
+  context.drawImage(
+    source,
+    (size.width - cropWidth) / 2,
+    (size.height - cropHeight) / 2,
+    cropWidth,
+    cropHeight,
+    x,
+    y,
+    width,
+    height,
+  )
+}
+
+/**
+ * Draws the main video, an inset and overlays to a canvas and streams it,
+ * with the audio of the main video. The layout can change while streaming.
+ */
+export class Compositor {
+  private video: HTMLVideoElement
+  private layout: CompositorLayout
+  private onError: (error: unknown) => void
+  private canvas = document.createElement('canvas')
+  private context: CanvasRenderingContext2D
+  private stream: MediaStream | null = null
+  private audioStream: MediaStream | null = null
+  private timer: number | null = null
+  // Inset source and what it was created for
+  private inset: HTMLVideoElement | null = null
+  private insetKey = ''
+  private insetStream: MediaStream | null = null
+  private logo: HTMLImageElement | null = null
+  private frameMarkers: FrameMarkerLog | null = null
+
+  constructor(
+    video: HTMLVideoElement,
+    layout: CompositorLayout,
+    onError: (error: unknown) => void,
+  ) {
+    const context = this.canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas drawing is not supported in this browser')
+    }
+    this.context = context
+    this.video = video
+    this.layout = layout
+    this.onError = onError
+    this.canvas.width = DEFAULT_WIDTH
+    this.canvas.height = DEFAULT_HEIGHT
+  }
+
+  /** Start drawing and return the stream of the canvas */
+  public async start(): Promise<MediaStream> {
+    // Frames are only captured when requested, so the frame rate can change
+    // without a new track
+    const stream = this.canvas.captureStream(0)
+    this.stream = stream
+    try {
+      this.audioStream = await captureVideoStreamWhenReady(this.video)
+    } catch (error) {
+      this.stop()
+      throw error
+    }
+    for (const track of this.audioStream.getVideoTracks()) {
+      track.stop()
+    }
+    for (const track of this.audioStream.getAudioTracks()) {
+      stream.addTrack(track)
+    }
+    // The main video gets a new audio track when it plays another file
+    this.audioStream.addEventListener('addtrack', ({ track }) => {
+      if (track.kind !== 'audio') {
+        track.stop()
+        return
+      }
+      for (const previous of stream.getAudioTracks()) {
+        stream.removeTrack(previous)
+      }
+      stream.addTrack(track)
+      // Adding a track by script fires no event, tell the listeners anyway
+      stream.dispatchEvent(new MediaStreamTrackEvent('addtrack', { track }))
+    })
+    this.applyLayout()
+    return stream
+  }
+
+  public setLayout(layout: CompositorLayout): void {
+    const frameRateChanged = layout.frameRate !== this.layout.frameRate
+    this.layout = layout
+    if (this.stream) {
+      this.applyLayout(frameRateChanged)
+    }
+  }
+
+  /** Draw a frame marker into each frame, to measure the latency with */
+  public setFrameMarkers(frameMarkers: FrameMarkerLog | null): void {
+    this.frameMarkers = frameMarkers
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.releaseInset()
+    for (const stream of [this.stream, this.audioStream]) {
+      for (const track of stream?.getTracks() ?? []) {
+        track.stop()
+      }
+    }
+    this.stream = null
+    this.audioStream = null
+  }
+
+  private applyLayout(restartTimer = true): void {
+    this.updateInset()
+    this.updateLogo()
+    if (restartTimer || this.timer === null) {
+      if (this.timer !== null) {
+        clearInterval(this.timer)
+      }
+      // A timer keeps drawing in a background tab, unlike
+      // requestAnimationFrame
+      this.timer = setInterval(() => this.draw(), 1000 / this.layout.frameRate)
+    }
+  }
+
+  private updateInset(): void {
+    const { inset, insetVideoUrl } = this.layout
+    const key =
+      inset === InsetSource.VIDEO ? `${inset}:${insetVideoUrl}` : inset
+    if (key === this.insetKey) {
+      return
+    }
+    this.releaseInset()
+    this.insetKey = key
+    if (inset === InsetSource.NONE) {
+      return
+    }
+    const element = document.createElement('video')
+    element.muted = true
+    element.playsInline = true
+    this.inset = element
+    if (inset === InsetSource.VIDEO) {
+      if (!insetVideoUrl) {
+        return
+      }
+      element.crossOrigin = 'anonymous'
+      element.loop = true
+      element.src = insetVideoUrl
+      element.play().catch(this.onError)
+      return
+    }
+    navigator.mediaDevices
+      .getUserMedia({ video: true, audio: false })
+      .then((stream) => {
+        // The layout changed while the user was asked
+        if (this.inset !== element) {
+          for (const track of stream.getTracks()) {
+            track.stop()
+          }
+          return
+        }
+        this.insetStream = stream
+        element.srcObject = stream
+        return element.play()
+      })
+      .catch(this.onError)
+  }
+
+  private releaseInset(): void {
+    if (this.inset) {
+      this.inset.pause()
+      this.inset.removeAttribute('src')
+      this.inset.srcObject = null
+      this.inset = null
+    }
+    for (const track of this.insetStream?.getTracks() ?? []) {
+      track.stop()
+    }
+    this.insetStream = null
+    this.insetKey = ''
+  }
+
+  private updateLogo(): void {
+    const { logoUrl } = this.layout
+    if (!logoUrl) {
+      this.logo = null
+      return
+    }
+    if (this.logo?.src === new URL(logoUrl, document.baseURI).href) {
+      return
+    }
+    const logo = new Image()
+    // A logo from another origin without CORS would taint the canvas
+    logo.crossOrigin = 'anonymous'
+    logo.onerror = () => {
+      this.onError(new Error(`Could not load the logo ${logoUrl}`))
+      if (this.logo === logo) {
+        this.logo = null
+      }
+    }
+    logo.src = logoUrl
+    this.logo = logo
+  }
+
+  private draw(): void {
+    const { canvas, context, video } = this
+    if (video.videoWidth > 0 && video.videoHeight > 0) {
+      if (canvas.width !== video.videoWidth) {
+        canvas.width = video.videoWidth
+      }
+      if (canvas.height !== video.videoHeight) {
+        canvas.height = video.videoHeight
+      }
+    }
+    const { width, height } = canvas
+    context.fillStyle = '#000'
+    context.fillRect(0, 0, width, height)
+    if (isReady(video)) {
+      context.drawImage(video, 0, 0, width, height)
+    }
+    if (this.inset && isReady(this.inset)) {
+      this.drawInset(this.inset, this.layout.insetRect)
+    }
+    if (this.logo && isReady(this.logo)) {
+      const logoHeight = height * 0.1
+      const logoWidth =
+        (logoHeight * this.logo.naturalWidth) / this.logo.naturalHeight
+      const margin = height * 0.03
+      context.drawImage(
+        this.logo,
+        width - logoWidth - margin,
+        margin,
+        logoWidth,
+        logoHeight,
+      )
+    }
+    if (this.layout.overlayText) {
+      this.drawText(this.layout.overlayText)
+    }
+    if (this.frameMarkers) {
+      drawFrameMarker(context, height, this.frameMarkers.next())
+    }
+    const [track] = this.stream?.getVideoTracks() ?? []
+    ;(track as CanvasCaptureMediaStreamTrack | undefined)?.requestFrame()
+  }
+
+  private drawInset(inset: HTMLVideoElement, rect: NormalizedRect): void {
+    const { width, height } = this.canvas
+    const x = rect.x * width
+    const y = rect.y * height
+    const insetWidth = rect.width * width
+    const insetHeight = rect.height * height
+    drawCover(this.context, inset, x, y, insetWidth, insetHeight)
+    this.context.strokeStyle = '#fff'
+    this.context.lineWidth = Math.max(2, width * 0.002)
+    this.context.strokeRect(x, y, insetWidth, insetHeight)
+  }
+
+  private drawText(text: string): void {
+    const { context } = this
+    const { width, height } = this.canvas
+    const fontSize = Math.round(height * 0.045)
+    const margin = height * 0.03
+    const padding = fontSize * 0.3
+    context.font = `${fontSize}px sans-serif`
+    context.textBaseline = 'bottom'
+    context.textAlign = 'left'
+    const textWidth = Math.min(
+      context.measureText(text).width,
+      width - 2 * (margin + padding),
+    )
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)'
+    context.fillRect(
+      margin,
+      height - margin - fontSize - 2 * padding,
+      textWidth + 2 * padding,
+      fontSize + 2 * padding,
+    )
+    context.fillStyle = '#fff'
+    context.fillText(
+      text,
+      margin + padding,
+      height - margin - padding,
+      textWidth,
+    )
+  }
+}
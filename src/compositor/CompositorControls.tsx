@@ -0,0 +1,196 @@
+import { useEffect, useRef } from 'react'
+
+import {
+  COMPOSITOR_FRAME_RATES,
+  type CompositorLayout,
+  INSET_SOURCE_LABELS,
+  InsetSource,
+  type NormalizedRect,
+  clampRect,
+} from './compositorLayout'
+
+// What a drag on the inset changes
+const DragMode = {
+  MOVE: 'move',
+  RESIZE: 'resize',
+} as const
+
+type DragMode = (typeof DragMode)[keyof typeof DragMode]
+
+interface Drag {
+  mode: DragMode
+  startX: number
+  startY: number
+  startRect: NormalizedRect
+}
+
+interface CompositorControlsProps {
+  layout: CompositorLayout
+  onChange: (layout: CompositorLayout) => void
+  /** Stream of the compositor, `null` while it starts */
+  previewStream: MediaStream | null
+}
+
+/**
+ * Settings of the picture-in-picture compositor, with a preview of its output
+ * where the inset can be dragged and resized
+ */
+export function CompositorControls({
+  layout,
+  onChange,
+  previewStream,
+}: CompositorControlsProps) {
+  const previewRef = useRef<HTMLVideoElement>(null)
+  const dragRef = useRef<Drag | null>(null)
+
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.srcObject = previewStream
+    }
+  }, [previewStream])
+
+  const update = (changes: Partial<CompositorLayout>) =>
+    onChange({ ...layout, ...changes })
+
+  const startDrag =
+    (mode: DragMode) => (event: React.PointerEvent<HTMLElement>) => {
+      // The resize handle is inside the inset
+      event.stopPropagation()
+      event.currentTarget.setPointerCapture(event.pointerId)
+      dragRef.current = {
+        mode,
+        startX: event.clientX,
+        startY: event.clientY,
+        startRect: layout.insetRect,
+      }
+    }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current
+    const preview = previewRef.current
+    if (!drag || !preview) {
+      return
+    }
+    const box = preview.getBoundingClientRect()
+    const dx = (event.clientX - drag.startX) / box.width
+    const dy = (event.clientY - drag.startY) / box.height
+    const { startRect } = drag
+    update({
+      insetRect: clampRect(
+        drag.mode === DragMode.MOVE
+          ? { ...startRect, x: startRect.x + dx, y: startRect.y + dy }
+          : {
+              ...startRect,
+              width: Math.min(startRect.width + dx, 1 - startRect.x),
+              height: Math.min(startRect.height + dy, 1 - startRect.y),
+            },
+      ),
+    })
+  }
+
+  const endDrag = () => {
+    dragRef.current = null
+  }
+
+  const { insetRect } = layout
+
+  return (
+    <div className="compositor-controls">
+      <div className="compositor-preview">
+        <video
+          ref={previewRef}
+          autoPlay
+          muted
+          playsInline
+          aria-label="Preview of the composited video"
+        />
+        {layout.inset !== InsetSource.NONE && (
+          <div
+            className="compositor-inset"
+            style={{
+              left: `${insetRect.x * 100}%`,
+              top: `${insetRect.y * 100}%`,
+              width: `${insetRect.width * 100}%`,
+              height: `${insetRect.height * 100}%`,
+            }}
+            onPointerDown={startDrag(DragMode.MOVE)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            title="Drag to move the inset"
+          >
+            <div
+              className="compositor-inset-handle"
+              onPointerDown={startDrag(DragMode.RESIZE)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+              title="Drag to resize the inset"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="compositor-fields">
+        <label>
+          Inset
+          <select
+            value={layout.inset}
+            onChange={(event) =>
+              update({ inset: event.target.value as InsetSource })
+            }
+          >
+            {Object.values(InsetSource).map((value) => (
+              <option key={value} value={value}>
+                {INSET_SOURCE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {layout.inset === InsetSource.VIDEO && (
+          <label>
+            Video address
+            <input
+              type="url"
+              defaultValue={layout.insetVideoUrl}
+              placeholder="https://..."
+              onBlur={(event) => update({ insetVideoUrl: event.target.value })}
+            />
+          </label>
+        )}
+        <label>
+          Text
+          <input
+            type="text"
+            value={layout.overlayText}
+            onChange={(event) => update({ overlayText: event.target.value })}
+          />
+        </label>
+        <label>
+          Logo address
+          <input
+            type="url"
+            defaultValue={layout.logoUrl}
+            placeholder="https://..."
+            onBlur={(event) => update({ logoUrl: event.target.value })}
+          />
+        </label>
+        <label>
+          Frame rate
+          <select
+            value={layout.frameRate}
+            onChange={(event) =>
+              update({ frameRate: Number(event.target.value) })
+            }
+          >
+            {COMPOSITOR_FRAME_RATES.map((value) => (
+              <option key={value} value={value}>
+                {value} fps
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  )
+}
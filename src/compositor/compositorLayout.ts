@@ -0,0 +1,65 @@
+/** What is drawn in the inset over the main video */
+export const InsetSource = {
+  NONE: 'none',
+  CAMERA: 'camera',
+  VIDEO: 'video',
+} as const
+
+export type InsetSource = (typeof InsetSource)[keyof typeof InsetSource]
+
+export const INSET_SOURCE_LABELS: Record<InsetSource, string> = {
+  [InsetSource.NONE]: 'No inset',
+  [InsetSource.CAMERA]: 'Camera',
+  [InsetSource.VIDEO]: 'Second video',
+}
+
+/** Area of the output, from 0 to 1 on both axes */
+export interface NormalizedRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** What the compositor draws, and how often */
+export interface CompositorLayout {
+  inset: InsetSource
+  /** Address of the second video, for the video inset */
+  insetVideoUrl: string
+  /** The inset source is cropped to fill it */
+  insetRect: NormalizedRect
+  /** Shown in the bottom left corner, nothing when empty */
+  overlayText: string
+  /** Address of an image shown in the top right corner, nothing when empty */
+  logoUrl: string
+  frameRate: number
+}
+
+export const COMPOSITOR_FRAME_RATES = [15, 24, 30, 60]
+
+// Smallest inset, so it can still be grabbed
+export const MIN_INSET_SIZE = 0.05
+
+export const DEFAULT_COMPOSITOR_LAYOUT: CompositorLayout = {
+  inset: InsetSource.CAMERA,
+  insetVideoUrl: '',
+  insetRect: { x: 0.72, y: 0.7, width: 0.25, height: 0.25 },
+  overlayText: '',
+  logoUrl: '',
+  frameRate: 30,
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value))
+
+// Keep a rectangle inside the output and large enough to grab
+export const clampRect = (rect: NormalizedRect): NormalizedRect => {
+  const width = clamp(rect.width, MIN_INSET_SIZE, 1)
+  const height = clamp(rect.height, MIN_INSET_SIZE, 1)
+  return {
+    x: clamp(rect.x, 0, 1 - width),
+    y: clamp(rect.y, 0, 1 - height),
+    width,
+    height,
+  }
+}
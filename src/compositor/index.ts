@@ -0,0 +1,11 @@
+export { Compositor } from './Compositor'
+export { CompositorControls } from './CompositorControls'
+export {
+  COMPOSITOR_FRAME_RATES,
+  DEFAULT_COMPOSITOR_LAYOUT,
+  INSET_SOURCE_LABELS,
+  InsetSource,
+  MIN_INSET_SIZE,
+  clampRect,
+} from './compositorLayout'
+export type { CompositorLayout, NormalizedRect } from './compositorLayout'
@@ -1,11 +1,22 @@
 import { createContext } from 'react'
 
+import { DEFAULT_VIEW_OPTIONS, type DualScreenRoute, ScreenRole } from './route'
+
 interface DualScreenContextProps {
+  route: DualScreenRoute
   isPrimaryScreen: boolean
+  /** Secondary windows and viewers */
   isSecondaryScreen: boolean
+  isSelfTest: boolean
 }
 
 export const DualScreenContext = createContext<DualScreenContextProps>({
+  route: {
+    role: ScreenRole.PRIMARY,
+    sessionId: null,
+    view: DEFAULT_VIEW_OPTIONS,
+  },
   isPrimaryScreen: true,
   isSecondaryScreen: false,
+  isSelfTest: false,
 })
@@ -1,30 +1,21 @@
 import { useMemo, type PropsWithChildren } from 'react'
 import { DualScreenContext } from './dual-screen-context'
-import { SECONDARY_SEARCH_PARAM_NAME } from './useDualScreen'
+import { ScreenRole, isReceivingRole, parseRoute } from './route'
 
 export function DualScreenProvider({ children }: PropsWithChildren) {
-  const url = new URL(window.location.href)
-  const searchParams = new URLSearchParams(url.search)
-  const secondaryParam = searchParams.get(SECONDARY_SEARCH_PARAM_NAME)
+  const search = window.location.search
 
-  const isPrimaryScreen = useMemo(
-    () => secondaryParam !== 'true',
-    [secondaryParam],
-  )
+  const route = useMemo(() => parseRoute(search), [search])
 
-  const isSecondaryScreen = useMemo(
-    () => secondaryParam === 'true',
-    [secondaryParam],
+  const value = useMemo(
+    () => ({
+      route,
+      isPrimaryScreen: route.role === ScreenRole.PRIMARY,
+      isSecondaryScreen: isReceivingRole(route.role),
+      isSelfTest: route.role === ScreenRole.SELF_TEST,
+    }),
+    [route],
   )
 
-  return (
-    <DualScreenContext
-      value={{
-        isPrimaryScreen,
-        isSecondaryScreen,
-      }}
-    >
-      {children}
-    </DualScreenContext>
-  )
+  return <DualScreenContext value={value}>{children}</DualScreenContext>
 }
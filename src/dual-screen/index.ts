@@ -1,2 +1,16 @@
 export { DualScreenProvider } from './dual-screen-provider'
+export {
+  DEFAULT_VIEW_OPTIONS,
+  FIT_MODE_LABELS,
+  FitMode,
+  ROUTE_SEARCH_PARAM_NAMES,
+  SECONDARY_SEARCH_PARAM_NAME,
+  SELF_TEST_SEARCH_PARAM_NAME,
+  ScreenRole,
+  buildRouteUrl,
+  getDefaultViewOptions,
+  isReceivingRole,
+  parseRoute,
+} from './route'
+export type { DualScreenRoute, ViewOptions } from './route'
 export { useDualScreen } from './useDualScreen'
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  DEFAULT_VIEW_OPTIONS,
+  type DualScreenRoute,
+  FitMode,
+  ScreenRole,
+  buildRouteUrl,
+  parseRoute,
+} from './route'
+
+const BASE_URL = new URL('https://example.com/app/?lang=en')
+
+describe('parseRoute', () => {
+  it('defaults to the primary screen', () => {
+    expect(parseRoute('')).toEqual({
+      role: ScreenRole.PRIMARY,
+      sessionId: null,
+      view: DEFAULT_VIEW_OPTIONS,
+    })
+  })
+
+  it('reads the role, session and view options', () => {
+    expect(
+      parseRoute('?role=secondary&session=abc&fit=cover&controls=0'),
+    ).toEqual({
+      role: ScreenRole.SECONDARY,
+      sessionId: 'abc',
+      view: { fit: FitMode.COVER, controls: false, status: true },
+    })
+  })
+
+  it('understands the addresses from before the role parameter', () => {
+    expect(parseRoute('?secondary=true').role).toBe(ScreenRole.SECONDARY)
+    expect(parseRoute('?selftest=true').role).toBe(ScreenRole.SELF_TEST)
+  })
+
+  it('falls back to the defaults of the role for invalid values', () => {
+    expect(parseRoute('?role=viewer&fit=zoom&status=maybe').view).toEqual({
+      fit: FitMode.CONTAIN,
+      controls: false,
+      status: false,
+    })
+    expect(parseRoute('?role=unknown').role).toBe(ScreenRole.PRIMARY)
+  })
+})
+
+describe('buildRouteUrl', () => {
+  it('leaves out the defaults and keeps other parameters', () => {
+    const url = buildRouteUrl(
+      {
+        role: ScreenRole.PRIMARY,
+        sessionId: null,
+        view: DEFAULT_VIEW_OPTIONS,
+      },
+      BASE_URL,
+    )
+    expect(url.href).toBe('https://example.com/app/?lang=en')
+  })
+
+  it('replaces the route parameters of the base address', () => {
+    const url = buildRouteUrl(
+      {
+        role: ScreenRole.VIEWER,
+        sessionId: 'abc',
+        view: { fit: FitMode.FILL, controls: true, status: false },
+      },
+      new URL('https://example.com/?secondary=true&session=old&fit=cover'),
+    )
+    expect(url.search).toBe('?role=viewer&session=abc&fit=fill&controls=true')
+  })
+
+  it('builds addresses that parse back to the same route', () => {
+    const routes: DualScreenRoute[] = [
+      {
+        role: ScreenRole.SECONDARY,
+        sessionId: 'abc',
+        view: { fit: FitMode.COVER, controls: false, status: true },
+      },
+      {
+        role: ScreenRole.VIEWER,
+        sessionId: null,
+        view: { fit: FitMode.CONTAIN, controls: false, status: false },
+      },
+      {
+        role: ScreenRole.SELF_TEST,
+        sessionId: null,
+        view: DEFAULT_VIEW_OPTIONS,
+      },
+    ]
+    for (const route of routes) {
+      expect(parseRoute(buildRouteUrl(route, BASE_URL).search)).toEqual(route)
+    }
+  })
+})
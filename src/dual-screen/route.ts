@@ -0,0 +1,164 @@
+// Parameters of the addresses from before the role parameter, still
+// understood: `secondary=true` and `selftest=true`
+export const SECONDARY_SEARCH_PARAM_NAME = 'secondary'
+export const SELF_TEST_SEARCH_PARAM_NAME = 'selftest'
+
+/** What a window of the app does */
+export const ScreenRole = {
+  PRIMARY: 'primary',
+  SECONDARY: 'secondary',
+  /** A secondary window that only shows the video, e.g. a kiosk display */
+  VIEWER: 'viewer',
+  SELF_TEST: 'selftest',
+} as const
+
+export type ScreenRole = (typeof ScreenRole)[keyof typeof ScreenRole]
+
+/** How the received video fills its window, as CSS `object-fit` */
+export const FitMode = {
+  CONTAIN: 'contain',
+  COVER: 'cover',
+  FILL: 'fill',
+} as const
+
+export type FitMode = (typeof FitMode)[keyof typeof FitMode]
+
+export const FIT_MODE_LABELS: Record<FitMode, string> = {
+  [FitMode.CONTAIN]: 'Fit',
+  [FitMode.COVER]: 'Fill and crop',
+  [FitMode.FILL]: 'Stretch',
+}
+
+/** How one window shows itself */
+export interface ViewOptions {
+  fit: FitMode
+  /** Show the controls and panels, otherwise only the video */
+  controls: boolean
+  /** Show the connection status */
+  status: boolean
+}
+
+/** Everything the URL of a window says about it */
+export interface DualScreenRoute {
+  role: ScreenRole
+  /** Pairs a secondary window with its session on the primary */
+  sessionId: string | null
+  view: ViewOptions
+}
+
+export const ROUTE_SEARCH_PARAM_NAMES = {
+  role: 'role',
+  sessionId: 'session',
+  fit: 'fit',
+  controls: 'controls',
+  status: 'status',
+} as const
+
+export const DEFAULT_VIEW_OPTIONS: ViewOptions = {
+  fit: FitMode.CONTAIN,
+  controls: true,
+  status: true,
+}
+
+// Viewers show the bare video unless asked otherwise
+export const getDefaultViewOptions = (role: ScreenRole): ViewOptions =>
+  role === ScreenRole.VIEWER
+    ? { ...DEFAULT_VIEW_OPTIONS, controls: false, status: false }
+    : DEFAULT_VIEW_OPTIONS
+
+const isOneOf = <T extends string>(
+  values: Record<string, T>,
+  value: string | null,
+): value is T => Object.values<string>(values).includes(value ?? '')
+
+const parseBoolean = (value: string | null, fallback: boolean) => {
+  if (value === 'true' || value === '1') {
+    return true
+  }
+  if (value === 'false' || value === '0') {
+    return false
+  }
+  return fallback
+}
+
+const parseRole = (params: URLSearchParams): ScreenRole => {
+  const role = params.get(ROUTE_SEARCH_PARAM_NAMES.role)
+  if (isOneOf(ScreenRole, role)) {
+    return role
+  }
+  // Addresses from before the role parameter
+  if (params.get(SELF_TEST_SEARCH_PARAM_NAME) === 'true') {
+    return ScreenRole.SELF_TEST
+  }
+  if (params.get(SECONDARY_SEARCH_PARAM_NAME) === 'true') {
+    return ScreenRole.SECONDARY
+  }
+  return ScreenRole.PRIMARY
+}
+
+/**
+ * Read the route of a window from its query string. Unknown or invalid
+ * values fall back to the defaults of the role.
+ */
+export const parseRoute = (search: string): DualScreenRoute => {
+  const params = new URLSearchParams(search)
+  const role = parseRole(params)
+  const defaults = getDefaultViewOptions(role)
+  const fit = params.get(ROUTE_SEARCH_PARAM_NAMES.fit)
+  return {
+    role,
+    sessionId: params.get(ROUTE_SEARCH_PARAM_NAMES.sessionId) || null,
+    view: {
+      fit: isOneOf(FitMode, fit) ? fit : defaults.fit,
+      controls: parseBoolean(
+        params.get(ROUTE_SEARCH_PARAM_NAMES.controls),
+        defaults.controls,
+      ),
+      status: parseBoolean(
+        params.get(ROUTE_SEARCH_PARAM_NAMES.status),
+        defaults.status,
+      ),
+    },
+  }
+}
+
+/**
+ * Address of a window with the given route, based on another address whose
+ * other parameters are kept. View options equal to the defaults of the role
+ * are left out, so the addresses stay short.
+ */
+export const buildRouteUrl = (route: DualScreenRoute, base: URL): URL => {
+  const url = new URL(base)
+  const { searchParams } = url
+  for (const name of [
+    ...Object.values(ROUTE_SEARCH_PARAM_NAMES),
+    SECONDARY_SEARCH_PARAM_NAME,
+    SELF_TEST_SEARCH_PARAM_NAME,
+  ]) {
+    searchParams.delete(name)
+  }
+  if (route.role !== ScreenRole.PRIMARY) {
+    searchParams.set(ROUTE_SEARCH_PARAM_NAMES.role, route.role)
+  }
+  if (route.sessionId) {
+    searchParams.set(ROUTE_SEARCH_PARAM_NAMES.sessionId, route.sessionId)
+  }
+  const defaults = getDefaultViewOptions(route.role)
+  if (route.view.fit !== defaults.fit) {
+    searchParams.set(ROUTE_SEARCH_PARAM_NAMES.fit, route.view.fit)
+  }
+  if (route.view.controls !== defaults.controls) {
+    searchParams.set(
+      ROUTE_SEARCH_PARAM_NAMES.controls,
+      String(route.view.controls),
+    )
+  }
+  if (route.view.status !== defaults.status) {
+    searchParams.set(ROUTE_SEARCH_PARAM_NAMES.status, String(route.view.status))
+  }
+  return url
+}
+
+// Roles showing the video received from the primary
+export const isReceivingRole = (role: ScreenRole) =>
+  role === ScreenRole.SECONDARY || role === ScreenRole.VIEWER
@@ -1,8 +1,7 @@
 import { useContext } from 'react'
 import { DualScreenContext } from './dual-screen-context'
 
-export const SECONDARY_SEARCH_PARAM_NAME = 'secondary'
-
+/** The route of this window, see `parseRoute` */
 export function useDualScreen() {
   return useContext(DualScreenContext)
 }
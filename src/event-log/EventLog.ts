@@ -0,0 +1,99 @@
+import {
+  EventSeverity,
+  type LogEntry,
+  type LogEvent,
+  getEventSeverity,
+  getEventSource,
+} from './events'
+
+export const DEFAULT_LOG_CAPACITY = 500
+
+/**
+ * Log of the events of this window, keeping the latest entries in a ring
+ * buffer of fixed capacity
+ */
+export class EventLog {
+  private buffer: (LogEntry | undefined)[]
+  private start = 0
+  private size = 0
+  private nextId = 1
+  private listeners = new Set<() => void>()
+  // Entries in order, rebuilt after a change
+  private snapshot: LogEntry[] | null = null
+
+  constructor(capacity = DEFAULT_LOG_CAPACITY) {
+    this.buffer = new Array(capacity)
+  }
+
+  public add(event: LogEvent, context?: string): LogEntry {
+    const entry: LogEntry = {
+      ...event,
+      id: this.nextId++,
+      timestamp: Date.now(),
+      severity: getEventSeverity(event.code),
+      source: getEventSource(event.code),
+      context,
+    }
+    const capacity = this.buffer.length
+    this.buffer[(this.start + this.size) % capacity] = entry
+    if (this.size < capacity) {
+      this.size++
+    } else {
+      this.start = (this.start + 1) % capacity
+    }
+    this.snapshot = null
+    this.print(entry)
+    this.notify()
+    return entry
+  }
+
+  /** Entries from the oldest to the newest, the same array until a change */
+  public getEntries = (): LogEntry[] => {
+    if (!this.snapshot) {
+      const capacity = this.buffer.length
+      this.snapshot = Array.from(
+        { length: this.size },
+        (_, index) => this.buffer[(this.start + index) % capacity] as LogEntry,
+      )
+    }
+    return this.snapshot
+  }
+
+  public clear(): void {
+    this.buffer = new Array(this.buffer.length)
+    this.start = 0
+    this.size = 0
+    this.snapshot = null
+    this.notify()
+  }
+
+  /** Listen for changes, returns a function to stop listening */
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener()
+    }
+  }
+
+  // Mirror the problems to the console, the rest is only shown in the panel
+  private print(entry: LogEntry): void {
+    const text = `[${entry.code}]${entry.context ? ` ${entry.context}:` : ''} ${entry.message}`
+    switch (entry.severity) {
+      case EventSeverity.ERROR:
+        console.error(text)
+        break
+      case EventSeverity.WARNING:
+        console.warn(text)
+        break
+    }
+  }
+}
+
+/** Log of this window */
+export const eventLog = new EventLog()
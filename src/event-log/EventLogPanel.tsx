@@ -0,0 +1,143 @@
+import { useCallback, useMemo, useState } from 'react'
+
+import { eventLog } from './EventLog'
+import { collectDiagnostics } from './diagnostics'
+import { EventSeverity, EventSource, type LogEntry } from './events'
+import { useEventLog } from './useEventLog'
+
+// Entries rendered at once, the log itself may hold more
+const MAX_VISIBLE_ENTRIES = 200
+
+const ALL = 'all'
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour12: false })
+
+const matches = (
+  entry: LogEntry,
+  severity: string,
+  source: string,
+  search: string,
+) =>
+  (severity === ALL || entry.severity === severity) &&
+  (source === ALL || entry.source === source) &&
+  (!search ||
+    `${entry.code} ${entry.context ?? ''} ${entry.message}`
+      .toLowerCase()
+      .includes(search.toLowerCase()))
+
+interface EventLogPanelProps {
+  /**
+   * Added to the diagnostics when they are copied, e.g. the role of this
+   * window
+   */
+  getDetails?: () => Record<string, unknown>
+}
+
+/**
+ * Collapsible history of the events of this window, with filters and a
+ * button copying diagnostics for bug reports
+ */
+export function EventLogPanel({ getDetails }: EventLogPanelProps) {
+  const entries = useEventLog()
+  const [severity, setSeverity] = useState<string>(ALL)
+  const [source, setSource] = useState<string>(ALL)
+  const [search, setSearch] = useState('')
+  const [copyState, setCopyState] = useState('')
+  // Diagnostics the clipboard refused, shown to be copied by hand
+  const [uncopiedText, setUncopiedText] = useState<string | null>(null)
+
+  const visibleEntries = useMemo(
+    () =>
+      entries
+        .filter((entry) => matches(entry, severity, source, search))
+        .slice(-MAX_VISIBLE_ENTRIES)
+        .reverse(),
+    [entries, search, severity, source],
+  )
+
+  const copyDiagnostics = useCallback(async () => {
+    const text = JSON.stringify(
+      collectDiagnostics(entries, getDetails?.()),
+      null,
+      2,
+    )
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopyState('Copied')
+      setUncopiedText(null)
+    } catch {
+      setCopyState('Could not copy, select the text below')
+      setUncopiedText(text)
+    }
+  }, [entries, getDetails])
+
+  return (
+    <details className="event-log">
+      <summary>Event log ({entries.length})</summary>
+      <div className="event-log-filters">
+        <select
+          value={severity}
+          onChange={(event) => setSeverity(event.target.value)}
+          aria-label="Filter by severity"
+        >
+          <option value={ALL}>All severities</option>
+          {Object.values(EventSeverity).map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <select
+          value={source}
+          onChange={(event) => setSource(event.target.value)}
+          aria-label="Filter by source"
+        >
+          <option value={ALL}>All sources</option>
+          {Object.values(EventSource).map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <input
+          type="search"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Search"
+          aria-label="Search the events"
+        />
+        <button type="button" onClick={copyDiagnostics}>
+          Copy diagnostics
+        </button>
+        <button type="button" onClick={() => eventLog.clear()}>
+          Clear
+        </button>
+        {copyState && <span className="event-log-copy">{copyState}</span>}
+      </div>
+      {uncopiedText !== null && (
+        <textarea
+          className="event-log-diagnostics"
+          value={uncopiedText}
+          readOnly
+          onFocus={(event) => event.target.select()}
+          aria-label="Diagnostics"
+        />
+      )}
+      <ol className="event-log-entries">
+        {visibleEntries.map((entry) => (
+          <li key={entry.id} className={`event-log-${entry.severity}`}>
+            <time dateTime={new Date(entry.timestamp).toISOString()}>
+              {formatTime(entry.timestamp)}
+            </time>
+            <code>{entry.code}</code>
+            <span>
+              {entry.context && `${entry.context}: `}
+              {entry.message}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </details>
+  )
+}
@@ -0,0 +1,68 @@
+import { ICE_SEARCH_PARAM_NAMES } from '../web-rtc/iceConfig'
+
+import type { LogEntry } from './events'
+
+const hasFunction = (target: object | undefined, name: string) =>
+  typeof (target as Record<string, unknown> | undefined)?.[name] === 'function'
+
+// Address of the page without its secrets: the ICE servers may carry TURN
+// credentials and the fragment holds the pairing token
+const redactUrl = (href: string) => {
+  const url = new URL(href)
+  for (const name of Object.values(ICE_SEARCH_PARAM_NAMES)) {
+    if (url.searchParams.has(name)) {
+      url.searchParams.set(name, 'redacted')
+    }
+  }
+  url.hash = ''
+  return url.toString()
+}
+
+const getCodecs = (kind: 'audio' | 'video') =>
+  typeof RTCRtpReceiver === 'undefined'
+    ? []
+    : [
+        ...new Set(
+          (RTCRtpReceiver.getCapabilities?.(kind)?.codecs ?? []).map(
+            (codec) => codec.mimeType,
+          ),
+        ),
+      ]
+
+// What this browser supports of the APIs the app relies on
+const collectCapabilities = () => ({
+  webRTC: typeof RTCPeerConnection === 'function',
+  broadcastChannel: typeof BroadcastChannel === 'function',
+  getDisplayMedia: hasFunction(navigator.mediaDevices, 'getDisplayMedia'),
+  getUserMedia: hasFunction(navigator.mediaDevices, 'getUserMedia'),
+  videoCaptureStream:
+    hasFunction(HTMLVideoElement.prototype, 'captureStream') ||
+    hasFunction(HTMLVideoElement.prototype, 'mozCaptureStream'),
+  canvasCaptureStream: hasFunction(
+    HTMLCanvasElement.prototype,
+    'captureStream',
+  ),
+  setCodecPreferences:
+    typeof RTCRtpTransceiver === 'function' &&
+    hasFunction(RTCRtpTransceiver.prototype, 'setCodecPreferences'),
+  videoCodecs: getCodecs('video'),
+  audioCodecs: getCodecs('audio'),
+})
+
+/**
+ * Bundle the log with the browser's capabilities, to attach to bug reports
+ */
+export const collectDiagnostics = (
+  entries: LogEntry[],
+  details: Record<string, unknown> = {},
+) => ({
+  generatedAt: new Date().toISOString(),
+  url: redactUrl(window.location.href),
+  userAgent: navigator.userAgent,
+  ...details,
+  capabilities: collectCapabilities(),
+  events: entries.map((entry) => ({
+    ...entry,
+    time: new Date(entry.timestamp).toISOString(),
+  })),
+})
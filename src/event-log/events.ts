@@ -0,0 +1,327 @@
+export const EventSeverity = {
+  INFO: 'info',
+  WARNING: 'warning',
+  ERROR: 'error',
+} as const
+
+export type EventSeverity = (typeof EventSeverity)[keyof typeof EventSeverity]
+
+/** Part of the app an event comes from */
+export const EventSource = {
+  SIGNALING: 'signaling',
+  ICE: 'ice',
+  MEDIA: 'media',
+  UI: 'ui',
+} as const
+
+export type EventSource = (typeof EventSource)[keyof typeof EventSource]
+
+/**
+ * Stable codes of the logged events. Messages may change, codes may not:
+ * they are what bug reports and diagnostics are searched for.
+ */
+export const EventCode = {
+  // Signaling
+  MESSAGE_REJECTED: 'SIG_MESSAGE_REJECTED',
+  PAIRING_MISSING: 'SIG_PAIRING_MISSING',
+  CONNECTION_SETUP: 'SIG_CONNECTION_SETUP',
+  SETUP_FAILED: 'SIG_SETUP_FAILED',
+  OFFER_SENT: 'SIG_OFFER_SENT',
+  OFFER_FAILED: 'SIG_OFFER_FAILED',
+  ANSWER_SENT: 'SIG_ANSWER_SENT',
+  NEGOTIATION_FAILED: 'SIG_NEGOTIATION_FAILED',
+  CONNECTION_ESTABLISHED: 'SIG_CONNECTION_ESTABLISHED',
+  CONTROL_CHANNEL_OPEN: 'SIG_CONTROL_CHANNEL_OPEN',
+  CONTROL_CHANNEL_ERROR: 'SIG_CONTROL_CHANNEL_ERROR',
+  CONTROL_MESSAGE_REJECTED: 'SIG_CONTROL_MESSAGE_REJECTED',
+  // ICE and connection state
+  CONNECTION_STATE: 'ICE_CONNECTION_STATE',
+  CONNECTION_LOST: 'ICE_CONNECTION_LOST',
+  ICE_STATE: 'ICE_STATE',
+  ICE_STATE_FAILED: 'ICE_STATE_FAILED',
+  ICE_CANDIDATE_FAILED: 'ICE_CANDIDATE_FAILED',
+  ICE_CONFIG_INVALID: 'ICE_CONFIG_INVALID',
+  RECONNECTING: 'ICE_RECONNECTING',
+  RECONNECTED: 'ICE_RECONNECTED',
+  RECONNECT_FAILED: 'ICE_RECONNECT_FAILED',
+  // Media
+  CAPTURE_STARTED: 'MEDIA_CAPTURE_STARTED',
+  CAPTURE_FAILED: 'MEDIA_CAPTURE_FAILED',
+  NO_VIDEO_TRACK: 'MEDIA_NO_VIDEO_TRACK',
+  NO_AUDIO_TRACK: 'MEDIA_NO_AUDIO_TRACK',
+  TRACK_RECEIVED: 'MEDIA_TRACK_RECEIVED',
+  TRACK_REPLACE_FAILED: 'MEDIA_TRACK_REPLACE_FAILED',
+  NO_VIDEO_ELEMENT: 'MEDIA_NO_VIDEO_ELEMENT',
+  PLAYBACK_STARTED: 'MEDIA_PLAYBACK_STARTED',
+  PLAYBACK_FAILED: 'MEDIA_PLAYBACK_FAILED',
+  AUTOPLAY_MUTED: 'MEDIA_AUTOPLAY_MUTED',
+  SOURCE_CHANGED: 'MEDIA_SOURCE_CHANGED',
+  SOURCE_FAILED: 'MEDIA_SOURCE_FAILED',
+  QUALITY_APPLIED: 'MEDIA_QUALITY_APPLIED',
+  QUALITY_RENEGOTIATING: 'MEDIA_QUALITY_RENEGOTIATING',
+  QUALITY_FAILED: 'MEDIA_QUALITY_FAILED',
+  CODEC_UNSUPPORTED: 'MEDIA_CODEC_UNSUPPORTED',
+  RECORDING_STARTED: 'MEDIA_RECORDING_STARTED',
+  RECORDING_SAVED: 'MEDIA_RECORDING_SAVED',
+  RECORDING_INTERRUPTED: 'MEDIA_RECORDING_INTERRUPTED',
+  RECORDING_FAILED: 'MEDIA_RECORDING_FAILED',
+  COMPOSITOR_FAILED: 'MEDIA_COMPOSITOR_FAILED',
+  // UI and window lifecycle
+  WINDOW_OPENING: 'UI_WINDOW_OPENING',
+  WINDOW_OPEN_FAILED: 'UI_WINDOW_OPEN_FAILED',
+  POPUP_BLOCKED: 'UI_POPUP_BLOCKED',
+  WINDOW_STATE: 'UI_WINDOW_STATE',
+  WINDOW_CLOSED: 'UI_WINDOW_CLOSED',
+  SELF_TEST_PASSED: 'UI_SELF_TEST_PASSED',
+  SELF_TEST_FAILED: 'UI_SELF_TEST_FAILED',
+} as const
+
+export type EventCode = (typeof EventCode)[keyof typeof EventCode]
+
+// Every code belongs to one source and has one severity
+const EVENT_CODE_INFO: Record<
+  EventCode,
+  { source: EventSource; severity: EventSeverity }
+> = {
+  [EventCode.MESSAGE_REJECTED]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.PAIRING_MISSING]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.CONNECTION_SETUP]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.SETUP_FAILED]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.OFFER_SENT]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.OFFER_FAILED]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.ANSWER_SENT]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.NEGOTIATION_FAILED]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.CONNECTION_ESTABLISHED]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.CONTROL_CHANNEL_OPEN]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.CONTROL_CHANNEL_ERROR]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.CONTROL_MESSAGE_REJECTED]: {
+    source: EventSource.SIGNALING,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.CONNECTION_STATE]: {
+    source: EventSource.ICE,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.CONNECTION_LOST]: {
+    source: EventSource.ICE,
+    severity: EventSeverity.WARNING,
+  },
+  [EventCode.ICE_STATE]: {
+    source: EventSource.ICE,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.ICE_STATE_FAILED]: {
+    source: EventSource.ICE,
+    severity: EventSeverity.WARNING,
+  },
+  [EventCode.ICE_CANDIDATE_FAILED]: {
+    source: EventSource.ICE,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.ICE_CONFIG_INVALID]: {
+    source: EventSource.ICE,
+    severity: EventSeverity.WARNING,
+  },
+  [EventCode.RECONNECTING]: {
+    source: EventSource.ICE,
+    severity: EventSeverity.WARNING,
+  },
+  [EventCode.RECONNECTED]: {
+    source: EventSource.ICE,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.RECONNECT_FAILED]: {
+    source: EventSource.ICE,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.CAPTURE_STARTED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.CAPTURE_FAILED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.NO_VIDEO_TRACK]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.NO_AUDIO_TRACK]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.WARNING,
+  },
+  [EventCode.TRACK_RECEIVED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.TRACK_REPLACE_FAILED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.NO_VIDEO_ELEMENT]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.PLAYBACK_STARTED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.PLAYBACK_FAILED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.AUTOPLAY_MUTED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.WARNING,
+  },
+  [EventCode.SOURCE_CHANGED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.SOURCE_FAILED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.QUALITY_APPLIED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.QUALITY_RENEGOTIATING]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.QUALITY_FAILED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.WARNING,
+  },
+  [EventCode.CODEC_UNSUPPORTED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.WARNING,
+  },
+  [EventCode.RECORDING_STARTED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.RECORDING_SAVED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.RECORDING_INTERRUPTED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.WARNING,
+  },
+  [EventCode.RECORDING_FAILED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.COMPOSITOR_FAILED]: {
+    source: EventSource.MEDIA,
+    severity: EventSeverity.WARNING,
+  },
+  [EventCode.WINDOW_OPENING]: {
+    source: EventSource.UI,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.WINDOW_OPEN_FAILED]: {
+    source: EventSource.UI,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.POPUP_BLOCKED]: {
+    source: EventSource.UI,
+    severity: EventSeverity.ERROR,
+  },
+  [EventCode.WINDOW_STATE]: {
+    source: EventSource.UI,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.WINDOW_CLOSED]: {
+    source: EventSource.UI,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.SELF_TEST_PASSED]: {
+    source: EventSource.UI,
+    severity: EventSeverity.INFO,
+  },
+  [EventCode.SELF_TEST_FAILED]: {
+    source: EventSource.UI,
+    severity: EventSeverity.ERROR,
+  },
+}
+
+export const getEventSource = (code: EventCode): EventSource =>
+  EVENT_CODE_INFO[code].source
+
+export const getEventSeverity = (code: EventCode): EventSeverity =>
+  EVENT_CODE_INFO[code].severity
+
+/** An event as reported by the code that noticed it */
+export interface LogEvent {
+  code: EventCode
+  message: string
+  /** Name of the error that caused the event, e.g. "NotAllowedError" */
+  errorName?: string
+}
+
+/** An event as stored in the log */
+export interface LogEntry extends LogEvent {
+  id: number
+  timestamp: number
+  severity: EventSeverity
+  source: EventSource
+  /** Where the event happened, e.g. the label of a secondary window */
+  context?: string
+}
+
+/**
+ * Create an event, appending the message of the error that caused it
+ */
+export const createLogEvent = (
+  code: EventCode,
+  message: string,
+  error?: unknown,
+): LogEvent => {
+  if (error === undefined) {
+    return { code, message }
+  }
+  if (error instanceof Error) {
+    return {
+      code,
+      message: `${message}: ${error.message}`,
+      errorName: error.name,
+    }
+  }
+  return { code, message: `${message}: ${String(error)}` }
+}
@@ -0,0 +1,13 @@
+export { DEFAULT_LOG_CAPACITY, EventLog, eventLog } from './EventLog'
+export { EventLogPanel } from './EventLogPanel'
+export { collectDiagnostics } from './diagnostics'
+export {
+  EventCode,
+  EventSeverity,
+  EventSource,
+  createLogEvent,
+  getEventSeverity,
+  getEventSource,
+} from './events'
+export type { LogEntry, LogEvent } from './events'
+export { useEventLog } from './useEventLog'
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+
+import { eventLog } from './EventLog'
+
+/** Entries of this window's log, updated as events are added */
+export const useEventLog = () =>
+  useSyncExternalStore(eventLog.subscribe, eventLog.getEntries)
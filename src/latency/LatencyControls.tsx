@@ -0,0 +1,81 @@
+import {
+  type LatencySettings,
+  MAX_SYNC_DELAY,
+  SYNC_MODE_LABELS,
+  SyncMode,
+  formatLatency,
+  hasVideoFrameCallbacks,
+} from './latency'
+
+interface LatencyControlsProps {
+  settings: LatencySettings
+  onChange: (settings: LatencySettings) => void
+  /** Milliseconds the primary screen is currently delayed by */
+  primaryDelay: number
+}
+
+export function LatencyControls({
+  settings,
+  onChange,
+  primaryDelay,
+}: LatencyControlsProps) {
+  const update = (changes: Partial<LatencySettings>) =>
+    onChange({ ...settings, ...changes })
+  const canFollowFrames = hasVideoFrameCallbacks()
+
+  return (
+    <details className="latency-controls">
+      <summary>Latency and sync</summary>
+
+      <div className="latency-fields">
+        <label>
+          Keep the screens in sync
+          <select
+            value={settings.syncMode}
+            onChange={(event) =>
+              update({ syncMode: event.target.value as SyncMode })
+            }
+          >
+            {Object.values(SyncMode).map((mode) => (
+              <option
+                key={mode}
+                value={mode}
+                disabled={mode === SyncMode.DELAY_PRIMARY && !canFollowFrames}
+              >
+                {SYNC_MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Tolerance (ms)
+          <input
+            type="number"
+            min={0}
+            max={MAX_SYNC_DELAY}
+            step={10}
+            value={settings.tolerance}
+            onChange={(event) =>
+              update({ tolerance: Math.max(Number(event.target.value), 0) })
+            }
+          />
+        </label>
+
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.frameMarker}
+            disabled={!canFollowFrames}
+            onChange={(event) => update({ frameMarker: event.target.checked })}
+          />
+          Measure with frame markers (picture-in-picture source)
+        </label>
+      </div>
+
+      {settings.syncMode === SyncMode.DELAY_PRIMARY && (
+        <p>Primary screen delayed by {formatLatency(primaryDelay)}</p>
+      )}
+    </details>
+  )
+}
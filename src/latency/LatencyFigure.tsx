@@ -0,0 +1,28 @@
+import {
+  LATENCY_METHOD_LABELS,
+  type LatencyEstimate,
+  formatLatency,
+} from './latency'
+
+interface LatencyFigureProps {
+  /** Milliseconds from the primary screen to this one, `null` if unknown */
+  glassToGlass: number | null
+  /** Details known on the primary */
+  estimate?: LatencyEstimate | null
+}
+
+/** Live glass-to-glass latency of a secondary screen */
+export function LatencyFigure({ glassToGlass, estimate }: LatencyFigureProps) {
+  return (
+    <p className="latency-figure">
+      Glass-to-glass: <strong>{formatLatency(glassToGlass)}</strong>
+      {estimate && glassToGlass !== null && (
+        <span>
+          {' '}
+          ({LATENCY_METHOD_LABELS[estimate.method]}, round trip{' '}
+          {formatLatency(estimate.roundTripTime)})
+        </span>
+      )}
+    </p>
+  )
+}
@@ -0,0 +1,125 @@
+import {
+  type ControlMessage,
+  type LatencyPongMessage,
+  MessageType,
+  type WebRTConnectionService,
+} from '../web-rtc'
+
+import type { FrameMarkerLog } from './frameMarker'
+import {
+  LATENCY_PING_INTERVAL,
+  type LatencyEstimate,
+  LatencyMethod,
+  estimateFromParts,
+  isPlausibleLatency,
+  latencyClock,
+  smooth,
+} from './latency'
+
+const smoothOrNull = (previous: number | null, value: number | null) =>
+  value === null ? previous : smooth(previous, value)
+
+/**
+ * Measures the latency of one secondary window from the primary: pings over
+ * the data channel answered with the receiver's delays and, when the video
+ * carries frame markers, the last marker shown.
+ */
+export class LatencyProbe {
+  private service: WebRTConnectionService
+  private getFrameMarkers: () => FrameMarkerLog | null
+  private onEstimate: (estimate: LatencyEstimate) => void
+  private timer: number | null = null
+  private unsubscribeMessages: (() => void) | null = null
+  private unsubscribeStats: (() => void) | null = null
+  private encodeDelay: number | null = null
+  private estimate: LatencyEstimate | null = null
+
+  constructor(
+    service: WebRTConnectionService,
+    getFrameMarkers: () => FrameMarkerLog | null,
+    onEstimate: (estimate: LatencyEstimate) => void,
+  ) {
+    this.service = service
+    this.getFrameMarkers = getFrameMarkers
+    this.onEstimate = onEstimate
+  }
+
+  public start(): void {
+    if (this.timer !== null) {
+      return
+    }
+    this.unsubscribeMessages = this.service.subscribe(this.handleMessage)
+    this.unsubscribeStats = this.service.subscribeStats((sample) => {
+      this.encodeDelay = sample.encodeTime
+    })
+    this.timer = setInterval(() => this.ping(), LATENCY_PING_INTERVAL)
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.unsubscribeMessages?.()
+    this.unsubscribeStats?.()
+    this.unsubscribeMessages = null
+    this.unsubscribeStats = null
+  }
+
+  public getEstimate(): LatencyEstimate | null {
+    return this.estimate
+  }
+
+  private ping(): void {
+    // Over the signaling transport the round trip would mean nothing
+    if (!this.service.isControlChannelOpen()) {
+      return
+    }
+    this.service.sendControl({
+      type: MessageType.LATENCY_PING,
+      sentAt: latencyClock(),
+      glassToGlass: this.estimate?.glassToGlass ?? null,
+      frameMarker: this.getFrameMarkers() !== null,
+    })
+  }
+
+  private handleMessage = (message: ControlMessage): void => {
+    if (message.type === MessageType.LATENCY_PONG) {
+      this.handlePong(message)
+    }
+  }
+
+  private handlePong({ sentAt, receiver, marker }: LatencyPongMessage): void {
+    const roundTripTime = latencyClock() - sentAt
+    if (!isPlausibleLatency(roundTripTime)) {
+      return
+    }
+    const previous = this.estimate
+    const parts = {
+      roundTripTime: smooth(previous?.roundTripTime ?? null, roundTripTime),
+      encodeDelay: smoothOrNull(
+        previous?.encodeDelay ?? null,
+        this.encodeDelay,
+      ),
+      jitterBufferDelay: smoothOrNull(
+        previous?.jitterBufferDelay ?? null,
+        receiver.jitterBufferDelay,
+      ),
+      decodeDelay: smoothOrNull(
+        previous?.decodeDelay ?? null,
+        receiver.decodeDelay,
+      ),
+    }
+    const markerLatency = marker && this.getFrameMarkers()?.measure(marker)
+    const method =
+      markerLatency != null ? LatencyMethod.FRAME_MARKER : LatencyMethod.STATS
+    const measured = markerLatency ?? estimateFromParts(parts)
+    // Start over when the method changes, the two do not measure the same
+    const glassToGlass =
+      previous?.method === method
+        ? smoothOrNull(previous.glassToGlass, measured)
+        : measured
+    this.estimate = { ...parts, glassToGlass, method }
+    this.onEstimate(this.estimate)
+  }
+}
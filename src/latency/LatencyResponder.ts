@@ -0,0 +1,84 @@
+import {
+  type ControlMessage,
+  type LatencyPingMessage,
+  MessageType,
+  type ReceiverDelays,
+  type WebRTConnectionService,
+} from '../web-rtc'
+
+import { FrameMarkerReader } from './frameMarker'
+
+/**
+ * Answers the latency pings of the primary on a secondary window, with the
+ * delays of its receiver and the frame marker it last showed, and applies the
+ * jitter buffer target the primary asks for
+ */
+export class LatencyResponder {
+  private service: WebRTConnectionService
+  private onGlassToGlass: (latency: number | null) => void
+  private markerReader: FrameMarkerReader
+  private unsubscribeMessages: (() => void) | null = null
+  private unsubscribeStats: (() => void) | null = null
+  private delays: ReceiverDelays = {
+    jitterBufferDelay: null,
+    decodeDelay: null,
+  }
+
+  constructor(
+    service: WebRTConnectionService,
+    video: HTMLVideoElement,
+    onGlassToGlass: (latency: number | null) => void,
+  ) {
+    this.service = service
+    this.onGlassToGlass = onGlassToGlass
+    this.markerReader = new FrameMarkerReader(video)
+  }
+
+  public start(): void {
+    if (this.unsubscribeMessages) {
+      return
+    }
+    this.unsubscribeMessages = this.service.subscribe(this.handleMessage)
+    this.unsubscribeStats = this.service.subscribeStats((sample) => {
+      this.delays = {
+        jitterBufferDelay: sample.jitterBufferDelay,
+        decodeDelay: sample.decodeTime,
+      }
+    })
+  }
+
+  public stop(): void {
+    this.unsubscribeMessages?.()
+    this.unsubscribeStats?.()
+    this.unsubscribeMessages = null
+    this.unsubscribeStats = null
+    this.markerReader.stop()
+  }
+
+  private handleMessage = (message: ControlMessage): void => {
+    if (message.type === MessageType.LATENCY_PING) {
+      this.handlePing(message)
+    } else if (message.type === MessageType.LATENCY_TARGET) {
+      this.service.setJitterBufferTarget(message.jitterBufferTarget)
+    }
+  }
+
+  private handlePing({
+    sentAt,
+    glassToGlass,
+    frameMarker,
+  }: LatencyPingMessage): void {
+    if (frameMarker) {
+      this.markerReader.start()
+    } else {
+      this.markerReader.stop()
+    }
+    this.service.sendControl({
+      type: MessageType.LATENCY_PONG,
+      sentAt,
+      receiver: this.delays,
+      marker: this.markerReader.getLatest(),
+    })
+    this.onGlassToGlass(glassToGlass)
+  }
+}
@@ -0,0 +1,179 @@
+import { MAX_SYNC_DELAY, hasVideoFrameCallbacks, latencyClock } from './latency'
+
+// Frames kept for the longest delay, at up to 60 frames per second
+const MAX_BUFFERED_FRAMES = Math.ceil((MAX_SYNC_DELAY / 1000) * 60) + 2
+
+interface BufferedFrame {
+  bitmap: ImageBitmap
+  shownAt: number
+}
+
+/**
+ * Shows a video element's picture and plays its audio later than the element
+ * does: frames are buffered and drawn to a canvas over the element, the audio
+ * goes through a delay node. The element keeps playing, and being captured,
+ * on time.
+ */
+export class PlaybackDelay {
+  private video: HTMLVideoElement
+  private canvas: HTMLCanvasElement
+  private context: CanvasRenderingContext2D | null
+  private delay = 0
+  private frames: BufferedFrame[] = []
+  private captureId: number | null = null
+  private drawId: number | null = null
+  // Created on first use: once routed through it, the element's audio cannot
+  // go back
+  private audioContext: AudioContext | null = null
+  private audioDelay: DelayNode | null = null
+
+  constructor(video: HTMLVideoElement, canvas: HTMLCanvasElement) {
+    this.video = video
+    this.canvas = canvas
+    this.context = canvas.getContext('2d')
+  }
+
+  /** Delay in milliseconds, 0 shows the element itself */
+  public setDelay(delay: number): void {
+    this.delay = Math.min(Math.max(delay, 0), MAX_SYNC_DELAY)
+    this.updateAudio()
+    if (this.delay > 0) {
+      this.start()
+    } else {
+      this.stopDrawing()
+    }
+  }
+
+  public getDelay(): number {
+    return this.delay
+  }
+
+  /** Stop delaying and release the audio graph */
+  public close(): void {
+    this.stopDrawing()
+    this.audioContext?.close()
+    this.audioContext = null
+    this.audioDelay = null
+  }
+
+  private updateAudio(): void {
+    if (!this.audioDelay && this.delay > 0) {
+      try {
+        const audioContext = new AudioContext()
+        const source = audioContext.createMediaElementSource(this.video)
+        const audioDelay = audioContext.createDelay(MAX_SYNC_DELAY / 1000)
+        source.connect(audioDelay).connect(audioContext.destination)
+        this.audioContext = audioContext
+        this.audioDelay = audioDelay
+      } catch {
+        // Without Web Audio only the picture is delayed
+        return
+      }
+    }
+    if (this.audioContext && this.audioDelay) {
+      this.audioDelay.delayTime.setValueAtTime(
+        this.delay / 1000,
+        this.audioContext.currentTime,
+      )
+      // Started without a user gesture, resumes once allowed
+      this.audioContext.resume().catch(() => {})
+    }
+  }
+
+  private start(): void {
+    if (this.drawId !== null || !hasVideoFrameCallbacks()) {
+      return
+    }
+    this.captureFrames()
+    const draw = () => {
+      this.draw()
+      this.drawId = requestAnimationFrame(draw)
+    }
+    this.drawId = requestAnimationFrame(draw)
+  }
+
+  // Buffer each new frame of the element
+  private captureFrames(): void {
+    const capture = () => {
+      if (this.video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        const shownAt = latencyClock()
+        createImageBitmap(this.video).then(
+          (bitmap) => this.buffer({ bitmap, shownAt }),
+          () => {
+            // No frame to copy, e.g. while a new item loads
+          },
+        )
+      }
+      this.captureId = this.video.requestVideoFrameCallback(capture)
+    }
+    this.captureId = this.video.requestVideoFrameCallback(capture)
+  }
+
+  private buffer(frame: BufferedFrame): void {
+    if (this.drawId === null) {
+      frame.bitmap.close()
+      return
+    }
+    this.frames.push(frame)
+    for (const dropped of this.frames.splice(
+      0,
+      this.frames.length - MAX_BUFFERED_FRAMES,
+    )) {
+      dropped.bitmap.close()
+    }
+  }
+
+  // Draw the newest frame that is old enough, fitted like the element's
+  // picture
+  private draw(): void {
+    const { canvas, context } = this
+    const due = latencyClock() - this.delay
+    let index = -1
+    while (
+      index + 1 < this.frames.length &&
+      this.frames[index + 1].shownAt <= due
+    ) {
+      index++
+    }
+    if (!context || index === -1) {
+      return
+    }
+    for (const dropped of this.frames.splice(0, index)) {
+      dropped.bitmap.close()
+    }
+    const { bitmap } = this.frames[0]
+    const width = Math.round(canvas.clientWidth * devicePixelRatio)
+    const height = Math.round(canvas.clientHeight * devicePixelRatio)
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width
+      canvas.height = height
+    }
+    const scale = Math.min(width / bitmap.width, height / bitmap.height)
+    const drawWidth = bitmap.width * scale
+    const drawHeight = bitmap.height * scale
+    context.fillStyle = '#000'
+    context.fillRect(0, 0, width, height)
+    context.drawImage(
+      bitmap,
+      (width - drawWidth) / 2,
+      (height - drawHeight) / 2,
+      drawWidth,
+      drawHeight,
+    )
+  }
+
+  private stopDrawing(): void {
+    if (this.captureId !== null) {
+      this.video.cancelVideoFrameCallback(this.captureId)
+      this.captureId = null
+    }
+    if (this.drawId !== null) {
+      cancelAnimationFrame(this.drawId)
+      this.drawId = null
+    }
+    for (const frame of this.frames) {
+      frame.bitmap.close()
+    }
+    this.frames = []
+  }
+}
@@ -0,0 +1,162 @@
+import type { FrameMarkerSighting } from '../web-rtc'
+
+import {
+  hasVideoFrameCallbacks,
+  isPlausibleLatency,
+  latencyClock,
+} from './latency'
+
+// The marker is a row of black and white squares in the bottom left corner:
+// a white and a black one to find it, then the bits of a frame counter
+const GUARD_CELLS = 2
+const COUNTER_BITS = 14
+const MARKER_CELLS = GUARD_CELLS + COUNTER_BITS
+// Size of a square, relative to the frame height, large enough to survive
+// compression and scaling
+const CELL_SIZE = 1 / 24
+
+/** Frame counters wrap around at this value */
+export const FRAME_MARKER_MODULUS = 2 ** COUNTER_BITS
+
+// Pixels per square when reading a marker back
+const READ_CELL_PIXELS = 8
+
+const cellColor = (isSet: boolean) => (isSet ? '#fff' : '#000')
+
+/** Draw the marker of a frame counter over a frame of the given height */
+export const drawFrameMarker = (
+  context: CanvasRenderingContext2D,
+  height: number,
+  counter: number,
+): void => {
+  const cell = height * CELL_SIZE
+  const y = height - cell
+  const cells = [true, false]
+  for (let bit = COUNTER_BITS - 1; bit >= 0; bit--) {
+    cells.push(((counter >> bit) & 1) === 1)
+  }
+  cells.forEach((isSet, index) => {
+    context.fillStyle = cellColor(isSet)
+    context.fillRect(index * cell, y, cell, cell)
+  })
+}
+
+/**
+ * Counters of the frames drawn with a marker and when, on the primary, to
+ * compare with when the secondary window showed them
+ */
+export class FrameMarkerLog {
+  private drawnAt = new Float64Array(FRAME_MARKER_MODULUS)
+  private counter = 0
+
+  /** Counter for the next frame, drawn now */
+  public next(): number {
+    const counter = this.counter
+    this.counter = (this.counter + 1) % FRAME_MARKER_MODULUS
+    this.drawnAt[counter] = latencyClock()
+    return counter
+  }
+
+  /** Milliseconds between drawing the frame and showing it, `null` if unknown */
+  public measure({ counter, shownAt }: FrameMarkerSighting): number | null {
+    const drawnAt = this.drawnAt[counter % FRAME_MARKER_MODULUS]
+    if (!drawnAt) {
+      return null
+    }
+    const latency = shownAt - drawnAt
+    return isPlausibleLatency(latency) ? latency : null
+  }
+}
+
+/** Reads the frame marker of the frames shown by a video element */
+export class FrameMarkerReader {
+  private canvas = document.createElement('canvas')
+  private context: CanvasRenderingContext2D | null
+  private video: HTMLVideoElement
+  private callbackId: number | null = null
+  private latest: FrameMarkerSighting | null = null
+
+  constructor(video: HTMLVideoElement) {
+    this.video = video
+    this.canvas.width = MARKER_CELLS * READ_CELL_PIXELS
+    this.canvas.height = READ_CELL_PIXELS
+    this.context = this.canvas.getContext('2d', { willReadFrequently: true })
+  }
+
+  public start(): void {
+    if (this.callbackId === null && this.context && hasVideoFrameCallbacks()) {
+      this.schedule()
+    }
+  }
+
+  public stop(): void {
+    if (this.callbackId !== null) {
+      this.video.cancelVideoFrameCallback(this.callbackId)
+      this.callbackId = null
+    }
+    this.latest = null
+  }
+
+  /** Marker of the last frame shown, `null` when it has none */
+  public getLatest(): FrameMarkerSighting | null {
+    return this.latest
+  }
+
+  private schedule(): void {
+    this.callbackId = this.video.requestVideoFrameCallback((_now, metadata) => {
+      const counter = this.read()
+      this.latest =
+        counter === null
+          ? null
+          : {
+              counter,
+              shownAt: performance.timeOrigin + metadata.expectedDisplayTime,
+            }
+      this.schedule()
+    })
+  }
+
+  private read(): number | null {
+    const { context, video } = this
+    const height = video.videoHeight
+    if (!context || height === 0) {
+      return null
+    }
+    const cell = height * CELL_SIZE
+    context.drawImage(
+      video,
+      0,
+      height - cell,
+      cell * MARKER_CELLS,
+      cell,
+      0,
+      0,
+      this.canvas.width,
+      this.canvas.height,
+    )
+    const { data } = context.getImageData(
+      0,
+      0,
+      this.canvas.width,
+      this.canvas.height,
+    )
+    // Sample the middle of each square, away from blurred edges
+    const isSet = (index: number) => {
+      const x = index * READ_CELL_PIXELS + READ_CELL_PIXELS / 2
+      const offset = ((READ_CELL_PIXELS / 2) * this.canvas.width + x) * 4
+      const luminance =
+        0.299 * data[offset] +
+        0.587 * data[offset + 1] +
+        0.114 * data[offset + 2]
+      return luminance >= 128
+    }
+    if (!isSet(0) || isSet(1)) {
+      return null
+    }
+    let counter = 0
+    for (let index = GUARD_CELLS; index < MARKER_CELLS; index++) {
+      counter = (counter << 1) | (isSet(index) ? 1 : 0)
+    }
+    return counter
+  }
+}
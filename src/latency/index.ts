@@ -0,0 +1,32 @@
+export {
+  FRAME_MARKER_MODULUS,
+  FrameMarkerLog,
+  FrameMarkerReader,
+  drawFrameMarker,
+} from './frameMarker'
+export {
+  DEFAULT_LATENCY_SETTINGS,
+  LATENCY_METHOD_LABELS,
+  LATENCY_PING_INTERVAL,
+  LatencyMethod,
+  MAX_SYNC_DELAY,
+  SYNC_MODE_LABELS,
+  SyncMode,
+  estimateFromParts,
+  formatLatency,
+  hasVideoFrameCallbacks,
+  latencyClock,
+  planJitterBufferTargets,
+  planPrimaryDelay,
+} from './latency'
+export type {
+  AlignedWindow,
+  LatencyEstimate,
+  LatencySettings,
+} from './latency'
+export { LatencyControls } from './LatencyControls'
+export { LatencyFigure } from './LatencyFigure'
+export { LatencyProbe } from './LatencyProbe'
+export { LatencyResponder } from './LatencyResponder'
+export { PlaybackDelay } from './PlaybackDelay'
+export { usePlaybackDelay } from './usePlaybackDelay'
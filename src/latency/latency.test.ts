@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  type AlignedWindow,
+  LatencyMethod,
+  MAX_SYNC_DELAY,
+  planJitterBufferTargets,
+  planPrimaryDelay,
+} from './latency'
+
+describe('planPrimaryDelay', () => {
+  it('has no delay without latencies', () => {
+    expect(planPrimaryDelay([], 120, 40)).toBe(0)
+  })
+
+  it('follows the slowest secondary window', () => {
+    expect(planPrimaryDelay([80.4, 150.6, 120], 0, 40)).toBe(151)
+  })
+
+  it('keeps the current delay within the tolerance', () => {
+    expect(planPrimaryDelay([170], 150, 40)).toBe(150)
+    expect(planPrimaryDelay([200], 150, 40)).toBe(200)
+  })
+
+  it('never delays more than the maximum', () => {
+    expect(planPrimaryDelay([MAX_SYNC_DELAY + 500], 0, 40)).toBe(MAX_SYNC_DELAY)
+  })
+})
+
+const createWindow = (
+  id: string,
+  glassToGlass: number | null,
+  jitterBufferDelay: number | null,
+  jitterBufferTarget: number | null = null,
+): AlignedWindow => ({
+  id,
+  estimate: {
+    glassToGlass,
+    method: LatencyMethod.STATS,
+    roundTripTime: 2,
+    encodeDelay: 10,
+    jitterBufferDelay,
+    decodeDelay: 5,
+  },
+  jitterBufferTarget,
+})
+
+describe('planJitterBufferTargets', () => {
+  it('buffers the faster windows to the slowest one', () => {
+    const targets = planJitterBufferTargets(
+      [createWindow('fast', 100, 20), createWindow('slow', 200, 60)],
+      40,
+    )
+    // 80 ms of the fast window's latency are outside its jitter buffer
+    expect(targets).toEqual(new Map([['fast', 120]]))
+  })
+
+  it('leaves windows within the tolerance alone', () => {
+    const targets = planJitterBufferTargets(
+      [createWindow('a', 100, 20), createWindow('b', 130, 20)],
+      40,
+    )
+    expect(targets.size).toBe(0)
+  })
+
+  it('only returns the targets that change', () => {
+    const targets = planJitterBufferTargets(
+      [createWindow('fast', 100, 20, 120), createWindow('slow', 200, 60)],
+      40,
+    )
+    expect(targets.size).toBe(0)
+  })
+
+  it('takes the pace from the unbuffered windows', () => {
+    // The buffered window is slow because of its target, not its network
+    const targets = planJitterBufferTargets(
+      [createWindow('buffered', 300, 200, 200), createWindow('other', 150, 20)],
+      40,
+    )
+    expect(targets).toEqual(new Map([['buffered', 50]]))
+  })
+
+  it('clears the targets when fewer than two windows are measured', () => {
+    const targets = planJitterBufferTargets(
+      [createWindow('a', 100, 20, 60), createWindow('b', null, null)],
+      40,
+    )
+    expect(targets).toEqual(new Map([['a', null]]))
+  })
+})
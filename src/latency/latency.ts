@@ -0,0 +1,181 @@
+/**
+ * Milliseconds on a clock shared by the windows: they run on the same system,
+ * so their time origins only differ by when each page was loaded
+ */
+export const latencyClock = (): number =>
+  performance.timeOrigin + performance.now()
+
+/** Milliseconds between two latency pings */
+export const LATENCY_PING_INTERVAL = 1000
+
+/** Longest delay added to keep the screens in sync, in milliseconds */
+export const MAX_SYNC_DELAY = 1000
+
+// Measured latencies outside this range are glitches, e.g. a stale marker
+const MAX_PLAUSIBLE_LATENCY = 5000
+
+// Weight of a new measurement in the smoothed figures
+const SMOOTHING_FACTOR = 0.3
+
+/** How the screens are kept in sync */
+export const SyncMode = {
+  OFF: 'off',
+  /** Show the video on the primary as late as on the secondary windows */
+  DELAY_PRIMARY: 'delayPrimary',
+  /** Buffer the faster secondary windows to match the slowest one */
+  ALIGN_SECONDARIES: 'alignSecondaries',
+} as const
+
+export type SyncMode = (typeof SyncMode)[keyof typeof SyncMode]
+
+export const SYNC_MODE_LABELS: Record<SyncMode, string> = {
+  [SyncMode.OFF]: 'Off',
+  [SyncMode.DELAY_PRIMARY]: 'Delay the primary screen',
+  [SyncMode.ALIGN_SECONDARIES]: 'Align the secondary screens',
+}
+
+export interface LatencySettings {
+  syncMode: SyncMode
+  /** Milliseconds the screens may be apart before the delay is adjusted */
+  tolerance: number
+  /** Draw frame markers into the picture-in-picture source to measure with */
+  frameMarker: boolean
+}
+
+export const DEFAULT_LATENCY_SETTINGS: LatencySettings = {
+  syncMode: SyncMode.OFF,
+  tolerance: 40,
+  frameMarker: false,
+}
+
+export const LatencyMethod = {
+  /** Frame markers read back from the received video */
+  FRAME_MARKER: 'frameMarker',
+  /** Sum of the delays reported by the statistics */
+  STATS: 'stats',
+} as const
+
+export type LatencyMethod = (typeof LatencyMethod)[keyof typeof LatencyMethod]
+
+export const LATENCY_METHOD_LABELS: Record<LatencyMethod, string> = {
+  [LatencyMethod.FRAME_MARKER]: 'frame marker',
+  [LatencyMethod.STATS]: 'estimated from statistics',
+}
+
+/** Latency of one secondary window, all figures in milliseconds */
+export interface LatencyEstimate {
+  /** From the frame shown on the primary to the same frame shown here */
+  glassToGlass: number | null
+  method: LatencyMethod
+  /** Round trip of a ping over the data channel */
+  roundTripTime: number | null
+  encodeDelay: number | null
+  jitterBufferDelay: number | null
+  decodeDelay: number | null
+}
+
+/** Frame markers and the primary delay follow the frames of a video element */
+export const hasVideoFrameCallbacks = (): boolean =>
+  'requestVideoFrameCallback' in HTMLVideoElement.prototype
+
+export const isPlausibleLatency = (latency: number): boolean =>
+  latency >= 0 && latency <= MAX_PLAUSIBLE_LATENCY
+
+// Exponential moving average, starting with the first value
+export const smooth = (previous: number | null, value: number): number =>
+  previous === null ? value : previous + (value - previous) * SMOOTHING_FACTOR
+
+/**
+ * Latency as the sum of its parts: encoding, the trip to the secondary, half
+ * the round trip, buffering and decoding. `null` until the receiver reported
+ * its delays.
+ */
+export const estimateFromParts = ({
+  encodeDelay,
+  roundTripTime,
+  jitterBufferDelay,
+  decodeDelay,
+}: Omit<LatencyEstimate, 'glassToGlass' | 'method'>): number | null => {
+  if (jitterBufferDelay === null || roundTripTime === null) {
+    return null
+  }
+  return (
+    (encodeDelay ?? 0) +
+    roundTripTime / 2 +
+    jitterBufferDelay +
+    (decodeDelay ?? 0)
+  )
+}
+
+/**
+ * Delay for the primary screen to show the video with the slowest secondary
+ * window. Keeps the current one while within the tolerance.
+ */
+export const planPrimaryDelay = (
+  latencies: number[],
+  current: number,
+  tolerance: number,
+): number => {
+  if (latencies.length === 0) {
+    return 0
+  }
+  const target = Math.min(Math.round(Math.max(...latencies)), MAX_SYNC_DELAY)
+  return Math.abs(target - current) > tolerance ? target : current
+}
+
+/** What the primary knows about a secondary window to align it */
+export interface AlignedWindow {
+  id: string
+  estimate: LatencyEstimate
+  /** Jitter buffer target already requested, `null` for none */
+  jitterBufferTarget: number | null
+}
+
+/**
+ * Jitter buffer targets that bring the secondary windows to the latency of
+ * the slowest unbuffered one. Only returns the targets that change.
+ */
+export const planJitterBufferTargets = (
+  windows: AlignedWindow[],
+  tolerance: number,
+): Map<string, number | null> => {
+  const measured = windows.filter(
+    ({ estimate }) =>
+      estimate.glassToGlass !== null && estimate.jitterBufferDelay !== null,
+  )
+  const changes = new Map<string, number | null>()
+  if (measured.length < 2) {
+    for (const window of windows) {
+      if (window.jitterBufferTarget !== null) {
+        changes.set(window.id, null)
+      }
+    }
+    return changes
+  }
+  // Buffered windows were slowed down on purpose, only the others set the pace
+  const unbuffered = measured.filter(
+    ({ jitterBufferTarget }) => jitterBufferTarget === null,
+  )
+  const slowest = Math.max(
+    ...(unbuffered.length > 0 ? unbuffered : measured).map(
+      ({ estimate }) => estimate.glassToGlass ?? 0,
+    ),
+  )
+  for (const { id, estimate, jitterBufferTarget } of measured) {
+    const latency = estimate.glassToGlass ?? 0
+    if (Math.abs(slowest - latency) <= tolerance) {
+      continue
+    }
+    // The part of the latency outside the jitter buffer stays the same
+    const outsideBuffer = latency - (estimate.jitterBufferDelay ?? 0)
+    const target = Math.min(Math.round(slowest - outsideBuffer), MAX_SYNC_DELAY)
+    const next = target > 0 ? target : null
+    if (next !== jitterBufferTarget) {
+      changes.set(id, next)
+    }
+  }
+  return changes
+}
+
+export const formatLatency = (latency: number | null): string =>
+  latency === null ? '–' : `${Math.round(latency)} ms`
@@ -0,0 +1,30 @@
+import { type RefObject, useEffect, useRef } from 'react'
+
+import { PlaybackDelay } from './PlaybackDelay'
+
+// Show a video element's playback the given milliseconds late on a canvas
+export function usePlaybackDelay(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  delay: number,
+) {
+  const playbackDelayRef = useRef<PlaybackDelay | null>(null)
+
+  useEffect(() => {
+    const video = videoRef.current
+    const canvas = canvasRef.current
+    if (!video || !canvas) {
+      return
+    }
+    const playbackDelay = new PlaybackDelay(video, canvas)
+    playbackDelayRef.current = playbackDelay
+    return () => {
+      playbackDelay.close()
+      playbackDelayRef.current = null
+    }
+  }, [canvasRef, videoRef])
+
+  useEffect(() => {
+    playbackDelayRef.current?.setDelay(delay)
+  }, [delay])
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef } from 'react'
+
+import {
+  MEDIA_SOURCE_LABELS,
+  MediaSourceKind,
+  isMediaSourceSupported,
+} from './mediaSource'
+
+interface MediaSourcePickerProps {
+  kind: MediaSourceKind
+  /** Stream of the current source, `null` for the video player */
+  previewStream: MediaStream | null
+  onChange: (kind: MediaSourceKind) => void
+}
+
+export function MediaSourcePicker({
+  kind,
+  previewStream,
+  onChange,
+}: MediaSourcePickerProps) {
+  const previewRef = useRef<HTMLVideoElement>(null)
+
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.srcObject = previewStream
+    }
+  }, [previewStream])
+
+  return (
+    <div className="media-source">
+      <label>
+        Share
+        <select
+          value={kind}
+          onChange={(event) => onChange(event.target.value as MediaSourceKind)}
+        >
+          {Object.values(MediaSourceKind).map((value) => (
+            <option
+              key={value}
+              value={value}
+              disabled={!isMediaSourceSupported(value)}
+            >
+              {MEDIA_SOURCE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {previewStream && (
+        <video
+          ref={previewRef}
+          className="media-source-preview"
+          autoPlay
+          muted
+          playsInline
+          aria-label="Preview of the shared source"
+        />
+      )}
+    </div>
+  )
+}
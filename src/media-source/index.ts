@@ -0,0 +1,10 @@
+export { MediaSourcePicker } from './MediaSourcePicker'
+export {
+  MEDIA_SOURCE_LABELS,
+  MediaSourceKind,
+  captureMediaSource,
+  isMediaSourceSupported,
+} from './mediaSource'
+export type { CaptureOptions, CapturedSource } from './mediaSource'
+export { startTestPattern } from './testPattern'
+export type { TestPattern } from './testPattern'
@@ -0,0 +1,119 @@
+import { Compositor } from '../compositor/Compositor'
+import {
+  type CompositorLayout,
+  DEFAULT_COMPOSITOR_LAYOUT,
+} from '../compositor/compositorLayout'
+import { captureVideoStreamWhenReady } from '../web-rtc'
+
+import { startTestPattern } from './testPattern'
+
+export const MediaSourceKind = {
+  VIDEO: 'video',
+  SCREEN: 'screen',
+  CAMERA: 'camera',
+  CANVAS: 'canvas',
+  COMPOSITE: 'composite',
+} as const
+
+export type MediaSourceKind =
+  (typeof MediaSourceKind)[keyof typeof MediaSourceKind]
+
+export const MEDIA_SOURCE_LABELS: Record<MediaSourceKind, string> = {
+  [MediaSourceKind.VIDEO]: 'Video player',
+  [MediaSourceKind.SCREEN]: 'Screen, window or tab',
+  [MediaSourceKind.CAMERA]: 'Camera',
+  [MediaSourceKind.CANVAS]: 'Test pattern',
+  [MediaSourceKind.COMPOSITE]: 'Video with picture-in-picture',
+}
+
+/** A stream captured from one of the media sources */
+export interface CapturedSource {
+  kind: MediaSourceKind
+  stream: MediaStream
+  /** Stop the tracks and whatever produces them */
+  stop: () => void
+  /** Draws the picture-in-picture source, its layout can change live */
+  compositor?: Compositor
+}
+
+export interface CaptureOptions {
+  compositorLayout?: CompositorLayout
+  /** Errors of the compositor once started, e.g. a camera that was denied */
+  onCompositorError?: (error: unknown) => void
+}
+
+const CANVAS_FRAME_RATE = 30
+
+export const isMediaSourceSupported = (kind: MediaSourceKind): boolean => {
+  switch (kind) {
+    case MediaSourceKind.VIDEO:
+      return true
+    case MediaSourceKind.SCREEN:
+      return typeof navigator.mediaDevices?.getDisplayMedia === 'function'
+    case MediaSourceKind.CAMERA:
+      return typeof navigator.mediaDevices?.getUserMedia === 'function'
+    case MediaSourceKind.CANVAS:
+    case MediaSourceKind.COMPOSITE:
+      return typeof HTMLCanvasElement.prototype.captureStream === 'function'
+  }
+}
+
+const stopTracks = (stream: MediaStream) => {
+  for (const track of stream.getTracks()) {
+    track.stop()
+  }
+}
+
+/**
+ * Capture a stream from the given source. Screen and camera capture prompt
+ * the user and must be started from a user gesture.
+ */
+export const captureMediaSource = async (
+  kind: MediaSourceKind,
+  video: HTMLVideoElement,
+  options: CaptureOptions = {},
+): Promise<CapturedSource> => {
+  switch (kind) {
+    case MediaSourceKind.VIDEO: {
+      const stream = await captureVideoStreamWhenReady(video)
+      return { kind, stream, stop: () => stopTracks(stream) }
+    }
+    case MediaSourceKind.SCREEN: {
+      // Tabs can share their audio too
+      const stream = await navigator.mediaDevices.getDisplayMedia({
+        video: true,
+        audio: true,
+      })
+      return { kind, stream, stop: () => stopTracks(stream) }
+    }
+    case MediaSourceKind.CAMERA: {
+      // No microphone: it would pick up the audio played next to it
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: true,
+        audio: false,
+      })
+      return { kind, stream, stop: () => stopTracks(stream) }
+    }
+    case MediaSourceKind.CANVAS: {
+      const pattern = startTestPattern()
+      const stream = pattern.canvas.captureStream(CANVAS_FRAME_RATE)
+      return {
+        kind,
+        stream,
+        stop: () => {
+          pattern.stop()
+          stopTracks(stream)
+        },
+      }
+    }
+    case MediaSourceKind.COMPOSITE: {
+      const compositor = new Compositor(
+        video,
+        options.compositorLayout ?? DEFAULT_COMPOSITOR_LAYOUT,
+        options.onCompositorError ?? (() => {}),
+      )
+      const stream = await compositor.start()
+      return { kind, stream, stop: () => compositor.stop(), compositor }
+    }
+  }
+}
@@ -0,0 +1,59 @@
+const BARS = [
+  '#c0c0c0',
+  '#c0c000',
+  '#00c0c0',
+  '#00c000',
+  '#c000c0',
+  '#c00000',
+  '#0000c0',
+]
+
+export interface TestPattern {
+  canvas: HTMLCanvasElement
+  stop: () => void
+}
+
+/**
+ * Draw an animated test pattern: color bars, a moving marker and the time,
+ * handy to check the secondary display is live
+ */
+export const startTestPattern = (
+  width = 1280,
+  height = 720,
+  frameRate = 30,
+): TestPattern => {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas drawing is not supported in this browser')
+  }
+  const startedAt = performance.now()
+  const draw = () => {
+    const elapsed = (performance.now() - startedAt) / 1000
+    const barWidth = width / BARS.length
+    BARS.forEach((color, index) => {
+      context.fillStyle = color
+      context.fillRect(index * barWidth, 0, barWidth + 1, height)
+    })
+    // A marker sweeping across once every 4 seconds
+    context.fillStyle = '#fff'
+    context.fillRect(((elapsed % 4) / 4) * width, height * 0.75, 8, height / 4)
+
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)'
+    context.fillRect(width / 2 - 220, height / 2 - 50, 440, 100)
+    context.fillStyle = '#fff'
+    context.font = '48px monospace'
+    context.textAlign = 'center'
+    context.textBaseline = 'middle'
+    context.fillText(new Date().toLocaleTimeString(), width / 2, height / 2)
+  }
+  draw()
+  // A timer keeps drawing in a background tab, unlike requestAnimationFrame
+  const timer = setInterval(draw, 1000 / frameRate)
+  return {
+    canvas,
+    stop: () => clearInterval(timer),
+  }
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react'
+
+import {
+  PlaybackAction,
+  type PlaybackCommand,
+  type PlaybackState,
+} from '../web-rtc'
+
+import { estimateCurrentTime, formatTime } from './playbackState'
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2]
+
+interface PlaybackControlsProps {
+  // Last state received from the primary window, null until the first one
+  state: PlaybackState | null
+  isPaused: boolean
+  onTogglePause: () => void
+  onCommand: (command: PlaybackCommand) => void
+  // Only show the state, e.g. on a viewer window
+  readOnly?: boolean
+}
+
+/**
+ * Controls for the primary video, shown on a secondary window where the
+ * native controls of the received stream cannot seek or change the rate
+ */
+export function PlaybackControls({
+  state,
+  isPaused,
+  onTogglePause,
+  onCommand,
+  readOnly = false,
+}: PlaybackControlsProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Re-render regularly while playing to move the time forward
+  useEffect(() => {
+    if (!state || state.paused) {
+      return
+    }
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [state])
+
+  const currentTime = state ? estimateCurrentTime(state, now) : null
+  const duration = state?.duration ?? null
+
+  return (
+    <div className="playback-controls">
+      <button
+        type="button"
+        onClick={onTogglePause}
+        disabled={readOnly}
+        className="video-play-pause-button"
+      >
+        {isPaused ? 'play' : 'pause'}
+      </button>
+
+      <span className="playback-time">
+        {formatTime(currentTime)} / {formatTime(duration)}
+      </span>
+
+      <input
+        type="range"
+        className="playback-seek"
+        min={0}
+        max={duration ?? 0}
+        step={0.1}
+        value={currentTime ?? 0}
+        disabled={readOnly || duration === null}
+        onChange={(event) =>
+          onCommand({
+            action: PlaybackAction.SEEK,
+            time: Number(event.target.value),
+          })
+        }
+        aria-label="Seek"
+      />
+
+      <label>
+        Speed
+        <select
+          value={state?.playbackRate ?? 1}
+          disabled={readOnly || !state}
+          onChange={(event) =>
+            onCommand({
+              action: PlaybackAction.SET_RATE,
+              rate: Number(event.target.value),
+            })
+          }
+        >
+          {PLAYBACK_RATES.map((rate) => (
+            <option key={rate} value={rate}>
+              {rate}x
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label>
+        Volume
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={state?.volume ?? 1}
+          disabled={readOnly || !state}
+          onChange={(event) =>
+            onCommand({
+              action: PlaybackAction.SET_VOLUME,
+              volume: Number(event.target.value),
+              muted: false,
+            })
+          }
+        />
+      </label>
+
+      <label>
+        <input
+          type="checkbox"
+          checked={state?.muted ?? false}
+          disabled={readOnly || !state}
+          onChange={(event) =>
+            onCommand({
+              action: PlaybackAction.SET_VOLUME,
+              volume: state?.volume ?? 1,
+              muted: event.target.checked,
+            })
+          }
+        />
+        Muted
+      </label>
+
+      <label>
+        <input
+          type="checkbox"
+          checked={state?.loop ?? false}
+          disabled={readOnly || !state}
+          onChange={(event) =>
+            onCommand({
+              action: PlaybackAction.SET_LOOP,
+              loop: event.target.checked,
+            })
+          }
+        />
+        Loop
+      </label>
+    </div>
+  )
+}
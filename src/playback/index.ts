@@ -0,0 +1,9 @@
+export { PlaybackControls } from './PlaybackControls'
+export {
+  PLAYBACK_HEARTBEAT_INTERVAL,
+  applyPlaybackCommand,
+  estimateCurrentTime,
+  formatTime,
+  readPlaybackState,
+  watchPlaybackState,
+} from './playbackState'
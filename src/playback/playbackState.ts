@@ -0,0 +1,105 @@
+import {
+  PlaybackAction,
+  type PlaybackCommand,
+  type PlaybackState,
+} from '../web-rtc'
+
+// Read the playback state of a video element
+export const readPlaybackState = (video: HTMLVideoElement): PlaybackState => ({
+  currentTime: video.currentTime,
+  duration: Number.isFinite(video.duration) ? video.duration : null,
+  paused: video.paused,
+  playbackRate: video.playbackRate,
+  volume: video.volume,
+  muted: video.muted,
+  loop: video.loop,
+  sentAt: Date.now(),
+})
+
+// Apply a command received from a secondary window to a video element
+export const applyPlaybackCommand = (
+  video: HTMLVideoElement,
+  command: PlaybackCommand,
+): void => {
+  switch (command.action) {
+    case PlaybackAction.SEEK:
+      video.currentTime = Number.isFinite(video.duration)
+        ? Math.min(command.time, video.duration)
+        : command.time
+      break
+    case PlaybackAction.SET_RATE:
+      video.playbackRate = command.rate
+      break
+    case PlaybackAction.SET_VOLUME:
+      video.volume = command.volume
+      video.muted = command.muted
+      break
+    case PlaybackAction.SET_LOOP:
+      video.loop = command.loop
+      break
+  }
+}
+
+// Estimate the current time of the primary video from its last known state,
+// correcting for the time elapsed since it was sent
+export const estimateCurrentTime = (
+  state: PlaybackState,
+  now = Date.now(),
+): number => {
+  if (state.paused) {
+    return state.currentTime
+  }
+  const elapsed = Math.max(0, now - state.sentAt) / 1000
+  const time = state.currentTime + elapsed * state.playbackRate
+  if (state.duration === null) {
+    return time
+  }
+  return state.loop ? time % state.duration : Math.min(time, state.duration)
+}
+
+// Format a time in seconds as m:ss or h:mm:ss
+export const formatTime = (seconds: number | null): string => {
+  if (seconds === null || !Number.isFinite(seconds)) {
+    return '--:--'
+  }
+  const total = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = String(total % 60).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
+
+// Interval of the state heartbeat, which keeps the secondary windows in sync
+// even when an event was missed
+export const PLAYBACK_HEARTBEAT_INTERVAL = 1000
+
+const PLAYBACK_EVENTS = [
+  'play',
+  'pause',
+  'seeked',
+  'ratechange',
+  'volumechange',
+  'durationchange',
+  'loadedmetadata',
+] as const
+
+// Report the playback state of a video whenever it changes, and periodically.
+// Returns a function that stops watching.
+export const watchPlaybackState = (
+  video: HTMLVideoElement,
+  onStateChange: (state: PlaybackState) => void,
+): (() => void) => {
+  const report = () => onStateChange(readPlaybackState(video))
+
+  for (const event of PLAYBACK_EVENTS) {
+    video.addEventListener(event, report)
+  }
+  const heartbeat = setInterval(report, PLAYBACK_HEARTBEAT_INTERVAL)
+
+  return () => {
+    for (const event of PLAYBACK_EVENTS) {
+      video.removeEventListener(event, report)
+    }
+    clearInterval(heartbeat)
+  }
+}
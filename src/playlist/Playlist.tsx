@@ -0,0 +1,153 @@
+import { type DragEvent, type FormEvent, useState } from 'react'
+
+import type { PlaylistControls } from './usePlaylist'
+
+interface PlaylistProps {
+  playlist: PlaylistControls
+}
+
+export function Playlist({ playlist }: PlaylistProps) {
+  const {
+    items,
+    currentItem,
+    autoAdvance,
+    select,
+    next,
+    previous,
+    addFiles,
+    addUrl,
+    removeItem,
+    moveItem,
+    setAutoAdvance,
+  } = playlist
+
+  const [url, setUrl] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+
+  const handleAddUrl = (event: FormEvent) => {
+    event.preventDefault()
+    if (!url.trim()) {
+      return
+    }
+    const urlError = addUrl(url)
+    setError(urlError)
+    if (!urlError) {
+      setUrl('')
+    }
+  }
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) {
+      return
+    }
+    const added = addFiles(files)
+    setError(added === 0 ? 'Only video and audio files can be added' : null)
+  }
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault()
+    setIsDragging(false)
+    handleFiles(event.dataTransfer.files)
+  }
+
+  return (
+    <section
+      className={`playlist${isDragging ? ' dragging' : ''}`}
+      aria-label="Playlist"
+      onDragOver={(event) => {
+        event.preventDefault()
+        setIsDragging(true)
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <h2>Playlist</h2>
+
+      <ol className="playlist-items">
+        {items.map((item, index) => (
+          <li
+            key={item.id}
+            className={item.id === currentItem?.id ? 'current' : undefined}
+          >
+            <button
+              type="button"
+              className="playlist-item-title"
+              onClick={() => select(item.id)}
+              aria-current={item.id === currentItem?.id}
+            >
+              {item.title}
+            </button>
+            <button
+              type="button"
+              onClick={() => moveItem(item.id, -1)}
+              disabled={index === 0}
+              aria-label={`Move ${item.title} up`}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => moveItem(item.id, 1)}
+              disabled={index === items.length - 1}
+              aria-label={`Move ${item.title} down`}
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => removeItem(item.id)}
+              aria-label={`Remove ${item.title}`}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="controls">
+        <button type="button" onClick={previous} disabled={items.length < 2}>
+          Previous
+        </button>
+        <button type="button" onClick={next} disabled={items.length < 2}>
+          Next
+        </button>
+        <label>
+          <input
+            type="checkbox"
+            checked={autoAdvance}
+            onChange={(event) => setAutoAdvance(event.target.checked)}
+          />
+          Auto-advance
+        </label>
+      </div>
+
+      <div className="playlist-add">
+        <label>
+          Add files (or drop them here)
+          <input
+            type="file"
+            accept="video/*,audio/*"
+            multiple
+            onChange={(event) => {
+              handleFiles(event.target.files)
+              event.target.value = ''
+            }}
+          />
+        </label>
+        <form onSubmit={handleAddUrl}>
+          <input
+            type="url"
+            placeholder="Paste a video URL"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            aria-label="Video URL"
+          />
+          <button type="submit">Add URL</button>
+        </form>
+      </div>
+
+      {error && <div className="playlist-error">{error}</div>}
+    </section>
+  )
+}
@@ -0,0 +1,10 @@
+export { Playlist } from './Playlist'
+export {
+  DEFAULT_PLAYLIST,
+  PlaylistItemKind,
+  loadPlaylist,
+  savePlaylist,
+} from './playlistStorage'
+export type { PlaylistItem, StoredPlaylist } from './playlistStorage'
+export { usePlaylist } from './usePlaylist'
+export type { PlaylistControls } from './usePlaylist'
@@ -0,0 +1,133 @@
+export const PlaylistItemKind = {
+  FILE: 'file',
+  URL: 'url',
+} as const
+
+export type PlaylistItemKind =
+  (typeof PlaylistItemKind)[keyof typeof PlaylistItemKind]
+
+export interface PlaylistItem {
+  id: string
+  title: string
+  src: string
+  kind: PlaylistItemKind
+}
+
+export interface StoredPlaylist {
+  items: PlaylistItem[]
+  currentId: string | null
+  autoAdvance: boolean
+}
+
+const STORAGE_KEY = 'video-share-movie:playlist'
+
+export const DEFAULT_PLAYLIST: StoredPlaylist = {
+  items: [
+    {
+      id: 'winter',
+      title: 'winter.mp4',
+      src: '/winter.mp4',
+      kind: PlaylistItemKind.URL,
+    },
+  ],
+  currentId: 'winter',
+  autoAdvance: true,
+}
+
+const isPlaylistItem = (value: unknown): value is PlaylistItem => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const item = value as Record<string, unknown>
+  return (
+    typeof item.id === 'string' &&
+    typeof item.title === 'string' &&
+    typeof item.src === 'string' &&
+    item.kind === PlaylistItemKind.URL
+  )
+}
+
+// Read the playlist saved by a previous visit, or the default one
+export const loadPlaylist = (): StoredPlaylist => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+    if (!stored || !Array.isArray(stored.items)) {
+      return DEFAULT_PLAYLIST
+    }
+    const items = stored.items.filter(isPlaylistItem)
+    const currentId = items.some(
+      (item: PlaylistItem) => item.id === stored.currentId,
+    )
+      ? stored.currentId
+      : (items[0]?.id ?? null)
+    return {
+      items,
+      currentId,
+      autoAdvance: stored.autoAdvance !== false,
+    }
+  } catch {
+    return DEFAULT_PLAYLIST
+  }
+}
+
+// Save the playlist. Local files are left out: their object URLs do not
+// survive a reload.
+export const savePlaylist = (playlist: StoredPlaylist): void => {
+  const items = playlist.items.filter(
+    (item) => item.kind === PlaylistItemKind.URL,
+  )
+  const currentId = items.some((item) => item.id === playlist.currentId)
+    ? playlist.currentId
+    : null
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ items, currentId, autoAdvance: playlist.autoAdvance }),
+    )
+  } catch {
+    // Storage is full or disabled, the playlist just won't be remembered
+  }
+}
+
+/** Where playback was when the page unloaded, resumed after a reload */
+export interface PlaybackPosition {
+  itemId: string
+  currentTime: number
+  paused: boolean
+}
+
+// Session storage: only a reload of this tab resumes
+const POSITION_STORAGE_KEY = 'video-share-movie:playback-position'
+
+// Read the position saved before a reload, once
+export const takePlaybackPosition = (): PlaybackPosition | null => {
+  try {
+    const stored = JSON.parse(
+      sessionStorage.getItem(POSITION_STORAGE_KEY) ?? 'null',
+    )
+    sessionStorage.removeItem(POSITION_STORAGE_KEY)
+    if (
+      typeof stored?.itemId !== 'string' ||
+      typeof stored.currentTime !== 'number' ||
+      !Number.isFinite(stored.currentTime) ||
+      typeof stored.paused !== 'boolean'
+    ) {
+      return null
+    }
+    return {
+      itemId: stored.itemId,
+      currentTime: stored.currentTime,
+      paused: stored.paused,
+    }
+  } catch {
+    return null
+  }
+}
+
+export const savePlaybackPosition = (position: PlaybackPosition): void => {
+  try {
+    sessionStorage.setItem(POSITION_STORAGE_KEY, JSON.stringify(position))
+  } catch {
+    // Storage is full or disabled, playback just starts over after a reload
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+
+import { type PlaylistItem, PlaylistItemKind } from './playlistStorage'
+import { stepPlaylist } from './usePlaylist'
+
+const createItem = (id: string): PlaylistItem => ({
+  id,
+  title: id,
+  src: `https://example.com/${id}.mp4`,
+  kind: PlaylistItemKind.URL,
+})
+
+const ITEMS = ['a', 'b', 'c'].map(createItem)
+
+describe('stepPlaylist', () => {
+  it('has no item in an empty playlist', () => {
+    expect(stepPlaylist([], null, 1)).toBeNull()
+  })
+
+  it('moves forward and back', () => {
+    expect(stepPlaylist(ITEMS, 'a', 1)?.id).toBe('b')
+    expect(stepPlaylist(ITEMS, 'c', -1)?.id).toBe('b')
+  })
+
+  it('wraps around both ends', () => {
+    expect(stepPlaylist(ITEMS, 'c', 1)?.id).toBe('a')
+    expect(stepPlaylist(ITEMS, 'a', -1)?.id).toBe('c')
+    expect(stepPlaylist(ITEMS, 'a', 4)?.id).toBe('b')
+  })
+
+  it('stays on the only item', () => {
+    const items = [createItem('a')]
+    expect(stepPlaylist(items, 'a', 1)?.id).toBe('a')
+    expect(stepPlaylist(items, 'a', -1)?.id).toBe('a')
+  })
+
+  it('starts from the first item without a current one', () => {
+    expect(stepPlaylist(ITEMS, null, 1)?.id).toBe('a')
+    expect(stepPlaylist(ITEMS, 'removed', 1)?.id).toBe('a')
+  })
+})
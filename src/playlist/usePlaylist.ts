@@ -0,0 +1,319 @@
+import { type RefObject, useCallback, useEffect, useRef, useState } from 'react'
+
+import { EventCode } from '../event-log'
+
+import {
+  type PlaybackPosition,
+  type PlaylistItem,
+  PlaylistItemKind,
+  type StoredPlaylist,
+  loadPlaylist,
+  savePlaybackPosition,
+  savePlaylist,
+  takePlaybackPosition,
+} from './playlistStorage'
+
+const isMediaFile = (file: File) =>
+  file.type.startsWith('video/') || file.type.startsWith('audio/')
+
+// Use the last path segment of a URL as its title
+const titleFromUrl = (url: URL) =>
+  decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() ?? '') ||
+  url.host
+
+/**
+ * Item `offset` places away from the current one, wrapping around: the item
+ * after the last one is the first. `null` if the playlist is empty.
+ */
+export const stepPlaylist = (
+  items: PlaylistItem[],
+  currentId: string | null,
+  offset: number,
+): PlaylistItem | null => {
+  if (items.length === 0) {
+    return null
+  }
+  const index = items.findIndex((item) => item.id === currentId)
+  const nextIndex =
+    (((index + offset) % items.length) + items.length) % items.length
+  return items[nextIndex]
+}
+
+/**
+ * Ordered list of media to play on a video element, persisted in local
+ * storage. The playlist repeats: the item after the last one is the first,
+ * and an item followed by the same media, e.g. the only one, starts over.
+ */
+export function usePlaylist(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  report: (code: EventCode, message: string, error?: unknown) => void,
+) {
+  const [playlist, setPlaylist] = useState<StoredPlaylist>(loadPlaylist)
+
+  // Whether to start playing once the next item is loaded
+  const resumeAfterSwitchRef = useRef(false)
+  // Object URLs created for local files, revoked when no longer used
+  const objectUrlsRef = useRef(new Set<string>())
+
+  const currentItem =
+    playlist.items.find((item) => item.id === playlist.currentId) ?? null
+
+  // Switch to another item, resuming playback if the video was playing
+  const switchTo = useCallback(
+    (id: string | null, resume = !videoRef.current?.paused) => {
+      resumeAfterSwitchRef.current = resume
+      setPlaylist((current) => ({ ...current, currentId: id }))
+    },
+    [videoRef],
+  )
+
+  // Go to an item. The video does not load anything when its source stays
+  // the same, so start that media over instead.
+  const goTo = useCallback(
+    (item: PlaylistItem, resume?: boolean) => {
+      const video = videoRef.current
+      if (!video || item.src !== currentItem?.src) {
+        switchTo(item.id, resume)
+        return
+      }
+      const play = resume ?? !video.paused
+      setPlaylist((current) => ({ ...current, currentId: item.id }))
+      video.currentTime = 0
+      if (play) {
+        video.play().catch((error) => {
+          report(EventCode.PLAYBACK_FAILED, 'Could not play the video', error)
+        })
+      }
+    },
+    [currentItem?.src, report, switchTo, videoRef],
+  )
+
+  const select = useCallback(
+    (id: string) => {
+      const item = playlist.items.find((item) => item.id === id)
+      if (item) {
+        goTo(item)
+      }
+    },
+    [goTo, playlist.items],
+  )
+
+  const step = useCallback(
+    (offset: number, resume?: boolean) => {
+      const item = stepPlaylist(playlist.items, playlist.currentId, offset)
+      if (item) {
+        goTo(item, resume)
+      }
+    },
+    [goTo, playlist.currentId, playlist.items],
+  )
+
+  const next = useCallback(() => step(1), [step])
+  const previous = useCallback(() => step(-1), [step])
+
+  const addItems = useCallback((newItems: PlaylistItem[]) => {
+    if (newItems.length === 0) {
+      return
+    }
+    setPlaylist((current) => ({
+      ...current,
+      items: [...current.items, ...newItems],
+      currentId: current.currentId ?? newItems[0].id,
+    }))
+  }, [])
+
+  // Add local files, played from object URLs
+  const addFiles = useCallback(
+    (files: Iterable<File>) => {
+      const newItems = [...files].filter(isMediaFile).map((file) => {
+        const src = URL.createObjectURL(file)
+        objectUrlsRef.current.add(src)
+        return {
+          id: crypto.randomUUID(),
+          title: file.name,
+          src,
+          kind: PlaylistItemKind.FILE,
+        }
+      })
+      addItems(newItems)
+      return newItems.length
+    },
+    [addItems],
+  )
+
+  // Add a remote or same-origin URL, returns an error message if it is invalid
+  const addUrl = useCallback(
+    (value: string): string | null => {
+      let url: URL
+      try {
+        url = new URL(value.trim(), window.location.href)
+      } catch {
+        return `"${value}" is not a valid URL`
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'Only http and https URLs can be added'
+      }
+      addItems([
+        {
+          id: crypto.randomUUID(),
+          title: titleFromUrl(url),
+          src: url.href,
+          kind: PlaylistItemKind.URL,
+        },
+      ])
+      return null
+    },
+    [addItems],
+  )
+
+  const removeItem = useCallback((id: string) => {
+    setPlaylist((current) => {
+      const index = current.items.findIndex((item) => item.id === id)
+      if (index === -1) {
+        return current
+      }
+      const items = current.items.filter((item) => item.id !== id)
+      const currentId =
+        current.currentId === id
+          ? (items[Math.min(index, items.length - 1)]?.id ?? null)
+          : current.currentId
+      return { ...current, items, currentId }
+    })
+  }, [])
+
+  const moveItem = useCallback((id: string, offset: number) => {
+    setPlaylist((current) => {
+      const index = current.items.findIndex((item) => item.id === id)
+      const target = index + offset
+      if (index === -1 || target < 0 || target >= current.items.length) {
+        return current
+      }
+      const items = [...current.items]
+      items.splice(target, 0, ...items.splice(index, 1))
+      return { ...current, items }
+    })
+  }, [])
+
+  const setAutoAdvance = useCallback((autoAdvance: boolean) => {
+    setPlaylist((current) => ({ ...current, autoAdvance }))
+  }, [])
+
+  // Remember the playlist across reloads
+  useEffect(() => {
+    savePlaylist(playlist)
+  }, [playlist])
+
+  // Advance when an item ends and resume playback once the next one loaded
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) {
+      return
+    }
+    const handleEnded = () => {
+      if (playlist.autoAdvance && !video.loop) {
+        step(1, true)
+      }
+    }
+    const handleLoadedData = () => {
+      if (resumeAfterSwitchRef.current) {
+        resumeAfterSwitchRef.current = false
+        video.play().catch(() => {
+          // Autoplay was blocked, the user can start it again
+        })
+      }
+    }
+    video.addEventListener('ended', handleEnded)
+    video.addEventListener('loadeddata', handleLoadedData)
+    return () => {
+      video.removeEventListener('ended', handleEnded)
+      video.removeEventListener('loadeddata', handleLoadedData)
+    }
+  }, [playlist.autoAdvance, step, videoRef])
+
+  // Resume where playback was before a reload, once the same item loaded
+  // again. `undefined` until read.
+  const restoredPositionRef = useRef<PlaybackPosition | null | undefined>(
+    undefined,
+  )
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) {
+      return
+    }
+    if (restoredPositionRef.current === undefined) {
+      restoredPositionRef.current = takePlaybackPosition()
+    }
+    const restorePosition = () => {
+      const position = restoredPositionRef.current
+      restoredPositionRef.current = null
+      if (!position || position.itemId !== playlist.currentId) {
+        return
+      }
+      video.currentTime = position.currentTime
+      if (!position.paused) {
+        video.play().catch(() => {
+          // Autoplay was blocked, the user can start it again
+        })
+      }
+    }
+    const handlePageHide = () => {
+      if (playlist.currentId) {
+        savePlaybackPosition({
+          itemId: playlist.currentId,
+          currentTime: video.currentTime,
+          paused: video.paused,
+        })
+      }
+    }
+    if (
+      restoredPositionRef.current &&
+      video.readyState >= HTMLMediaElement.HAVE_METADATA
+    ) {
+      restorePosition()
+    }
+    video.addEventListener('loadedmetadata', restorePosition)
+    window.addEventListener('pagehide', handlePageHide)
+    return () => {
+      video.removeEventListener('loadedmetadata', restorePosition)
+      window.removeEventListener('pagehide', handlePageHide)
+    }
+  }, [playlist.currentId, videoRef])
+
+  // Release the object URLs of the local files no item plays anymore
+  useEffect(() => {
+    const used = new Set(playlist.items.map(({ src }) => src))
+    for (const src of objectUrlsRef.current) {
+      if (!used.has(src)) {
+        objectUrlsRef.current.delete(src)
+        URL.revokeObjectURL(src)
+      }
+    }
+  }, [playlist.items])
+
+  // Release the object URLs of local files
+  useEffect(() => {
+    const objectUrls = objectUrlsRef.current
+    return () => {
+      for (const src of objectUrls) {
+        URL.revokeObjectURL(src)
+      }
+      objectUrls.clear()
+    }
+  }, [])
+
+  return {
+    items: playlist.items,
+    currentItem,
+    autoAdvance: playlist.autoAdvance,
+    select,
+    next,
+    previous,
+    addFiles,
+    addUrl,
+    removeItem,
+    moveItem,
+    setAutoAdvance,
+  }
+}
+
+export type PlaylistControls = ReturnType<typeof usePlaylist>
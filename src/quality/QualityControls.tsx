@@ -0,0 +1,158 @@
+import { useMemo } from 'react'
+
+import {
+  DegradationPreference,
+  QUALITY_PRESETS,
+  type QualitySettings,
+  type VideoCodec,
+  getSupportedVideoCodecs,
+} from '../web-rtc'
+
+const SCALE_OPTIONS = [1, 1.5, 2, 3, 4]
+const FRAMERATE_OPTIONS = [15, 24, 30, 60]
+
+const DEGRADATION_LABELS: Record<DegradationPreference, string> = {
+  [DegradationPreference.BALANCED]: 'Balanced',
+  [DegradationPreference.MAINTAIN_FRAMERATE]: 'Keep frame rate',
+  [DegradationPreference.MAINTAIN_RESOLUTION]: 'Keep resolution',
+}
+
+const isSameSettings = (a: QualitySettings, b: QualitySettings) =>
+  a.maxBitrate === b.maxBitrate &&
+  a.scaleResolutionDownBy === b.scaleResolutionDownBy &&
+  a.maxFramerate === b.maxFramerate &&
+  a.degradationPreference === b.degradationPreference &&
+  a.preferredCodec === b.preferredCodec
+
+interface QualityControlsProps {
+  settings: QualitySettings
+  onChange: (settings: QualitySettings) => void
+}
+
+export function QualityControls({ settings, onChange }: QualityControlsProps) {
+  const supportedCodecs = useMemo(getSupportedVideoCodecs, [])
+
+  const update = (changes: Partial<QualitySettings>) =>
+    onChange({ ...settings, ...changes })
+
+  return (
+    <details className="quality-controls">
+      <summary>Stream quality</summary>
+
+      <div className="quality-presets">
+        {Object.entries(QUALITY_PRESETS).map(
+          ([preset, { label, settings: presetSettings }]) => (
+            <button
+              key={preset}
+              type="button"
+              className={
+                isSameSettings(settings, presetSettings) ? 'active' : undefined
+              }
+              onClick={() => onChange(presetSettings)}
+            >
+              {label}
+            </button>
+          ),
+        )}
+      </div>
+
+      <div className="quality-fields">
+        <label>
+          Max bitrate (kbit/s)
+          <input
+            type="number"
+            min={100}
+            step={100}
+            placeholder="Unlimited"
+            value={
+              settings.maxBitrate === null ? '' : settings.maxBitrate / 1000
+            }
+            onChange={(event) =>
+              update({
+                maxBitrate: event.target.value
+                  ? Number(event.target.value) * 1000
+                  : null,
+              })
+            }
+          />
+        </label>
+
+        <label>
+          Resolution
+          <select
+            value={settings.scaleResolutionDownBy}
+            onChange={(event) =>
+              update({ scaleResolutionDownBy: Number(event.target.value) })
+            }
+          >
+            {SCALE_OPTIONS.map((scale) => (
+              <option key={scale} value={scale}>
+                {scale === 1 ? 'Full' : `1/${scale}`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Max frame rate
+          <select
+            value={settings.maxFramerate ?? ''}
+            onChange={(event) =>
+              update({
+                maxFramerate: event.target.value
+                  ? Number(event.target.value)
+                  : null,
+              })
+            }
+          >
+            <option value="">Source</option>
+            {FRAMERATE_OPTIONS.map((framerate) => (
+              <option key={framerate} value={framerate}>
+                {framerate} fps
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          When bandwidth is low
+          <select
+            value={settings.degradationPreference}
+            onChange={(event) =>
+              update({
+                degradationPreference: event.target
+                  .value as DegradationPreference,
+              })
+            }
+          >
+            {Object.values(DegradationPreference).map((preference) => (
+              <option key={preference} value={preference}>
+                {DEGRADATION_LABELS[preference]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Codec
+          <select
+            value={settings.preferredCodec ?? ''}
+            onChange={(event) =>
+              update({
+                preferredCodec: (event.target.value ||
+                  null) as VideoCodec | null,
+              })
+            }
+          >
+            <option value="">Browser default</option>
+            {supportedCodecs.map((codec) => (
+              <option key={codec} value={codec}>
+                {codec.replace('video/', '')}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1 @@
+export { QualityControls } from './QualityControls'
@@ -0,0 +1,51 @@
+import { formatTime } from '../playback'
+
+import { RecordingState } from './StreamRecorder'
+import type { Recorder } from './useRecorder'
+
+interface RecordingControlsProps {
+  recorder: Recorder
+  /** Start recording, the caller knows which stream to record */
+  onStart: () => void
+  /** `false` while there is nothing to record yet */
+  canStart?: boolean
+}
+
+export function RecordingControls({
+  recorder,
+  onStart,
+  canStart = true,
+}: RecordingControlsProps) {
+  const { isSupported, state, elapsed, pause, resume, stop } = recorder
+
+  if (!isSupported) {
+    return <div className="recording-controls">This browser cannot record</div>
+  }
+  return (
+    <div className="recording-controls">
+      {state === RecordingState.INACTIVE ? (
+        <button type="button" onClick={onStart} disabled={!canStart}>
+          Record
+        </button>
+      ) : (
+        <>
+          <button
+            type="button"
+            onClick={state === RecordingState.PAUSED ? resume : pause}
+          >
+            {state === RecordingState.PAUSED ? 'Resume' : 'Pause recording'}
+          </button>
+          <button type="button" onClick={stop}>
+            Stop and save
+          </button>
+          <span
+            className={`recording-timer ${state}`}
+            aria-label="Recorded time"
+          >
+            {formatTime(elapsed / 1000)}
+          </span>
+        </>
+      )}
+    </div>
+  )
+}
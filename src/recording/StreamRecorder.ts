@@ -0,0 +1,165 @@
+import {
+  createRecordingFileName,
+  getSupportedRecordingMimeType,
+} from './recordingFormats'
+
+export const RecordingState = {
+  INACTIVE: 'inactive',
+  RECORDING: 'recording',
+  PAUSED: 'paused',
+} as const
+
+export type RecordingState =
+  (typeof RecordingState)[keyof typeof RecordingState]
+
+/** A finished recording, ready to be downloaded */
+export interface Recording {
+  blob: Blob
+  mimeType: string
+  fileName: string
+  /** Milliseconds recorded, pauses excluded */
+  duration: number
+  /** Stopped by itself as the tracks of the stream changed */
+  interrupted: boolean
+}
+
+export interface StreamRecorderHandlers {
+  onStateChange: (state: RecordingState) => void
+  /** Called once with everything recorded, also after an error */
+  onStop: (recording: Recording) => void
+  onError: (error: unknown) => void
+}
+
+// Milliseconds of media buffered before it is handed over as a chunk
+const CHUNK_INTERVAL = 1000
+
+/**
+ * Records a media stream with `MediaRecorder`, in the first format the
+ * browser supports. Pausing the video does not pause the recording: the
+ * stream just has no new frames meanwhile. `MediaRecorder` fails when the
+ * tracks of its stream change, so the tracks there at the start are recorded
+ * and the recording stops once the stream gets other tracks or one of them
+ * ends, e.g. when another source is shared.
+ */
+export class StreamRecorder {
+  private recorder: MediaRecorder
+  private handlers: StreamRecorderHandlers
+  private stream: MediaStream
+  private tracks: MediaStreamTrack[]
+  private chunks: Blob[] = []
+  private interrupted = false
+  // Time recorded up to the last pause, and when recording last resumed,
+  // `null` while not recording
+  private recordedTime = 0
+  private resumedAt: number | null = null
+
+  constructor(stream: MediaStream, handlers: StreamRecorderHandlers) {
+    this.handlers = handlers
+    this.stream = stream
+    this.tracks = stream.getTracks()
+    const mimeType = getSupportedRecordingMimeType()
+    this.recorder = new MediaRecorder(
+      new MediaStream(this.tracks),
+      mimeType ? { mimeType } : {},
+    )
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data)
+      }
+    }
+    this.recorder.onerror = (event) => {
+      this.handlers.onError(
+        (event as Event & { error?: unknown }).error ??
+          new Error('Recording failed'),
+      )
+    }
+    // Also fired when every track of the stream ended, e.g. after the peer
+    // connection closed
+    this.recorder.onstop = () => this.finish()
+  }
+
+  public start(): void {
+    this.stream.addEventListener('addtrack', this.interrupt)
+    this.stream.addEventListener('removetrack', this.interrupt)
+    for (const track of this.tracks) {
+      track.addEventListener('ended', this.interrupt)
+    }
+    this.recorder.start(CHUNK_INTERVAL)
+    this.resumedAt = performance.now()
+    this.handlers.onStateChange(RecordingState.RECORDING)
+  }
+
+  public pause(): void {
+    if (this.recorder.state !== 'recording') {
+      return
+    }
+    this.recorder.pause()
+    this.holdTime()
+    this.handlers.onStateChange(RecordingState.PAUSED)
+  }
+
+  public resume(): void {
+    if (this.recorder.state !== 'paused') {
+      return
+    }
+    this.recorder.resume()
+    this.resumedAt = performance.now()
+    this.handlers.onStateChange(RecordingState.RECORDING)
+  }
+
+  /** Stop recording, `onStop` receives the recording */
+  public stop(): void {
+    if (this.recorder.state !== 'inactive') {
+      this.recorder.stop()
+    }
+  }
+
+  public getState(): RecordingState {
+    return this.recorder.state
+  }
+
+  /** Milliseconds recorded so far, pauses excluded */
+  public getElapsed(): number {
+    return this.resumedAt === null
+      ? this.recordedTime
+      : this.recordedTime + performance.now() - this.resumedAt
+  }
+
+  /** Format actually recorded, known once recording started */
+  public getMimeType(): string {
+    return this.recorder.mimeType || 'video/webm'
+  }
+
+  // Stop before the recorded tracks change under the recorder
+  private interrupt = (): void => {
+    if (this.recorder.state !== 'inactive') {
+      this.interrupted = true
+      this.recorder.stop()
+    }
+  }
+
+  private holdTime(): void {
+    this.recordedTime = this.getElapsed()
+    this.resumedAt = null
+  }
+
+  private finish(): void {
+    this.stream.removeEventListener('addtrack', this.interrupt)
+    this.stream.removeEventListener('removetrack', this.interrupt)
+    for (const track of this.tracks) {
+      track.removeEventListener('ended', this.interrupt)
+    }
+    this.holdTime()
+    const mimeType = this.getMimeType()
+    const recording: Recording = {
+      blob: new Blob(this.chunks, { type: mimeType }),
+      mimeType,
+      fileName: createRecordingFileName(mimeType),
+      duration: this.recordedTime,
+      interrupted: this.interrupted,
+    }
+    this.chunks = []
+    this.handlers.onStateChange(RecordingState.INACTIVE)
+    this.handlers.onStop(recording)
+  }
+}
@@ -0,0 +1,12 @@
+export { RecordingControls } from './RecordingControls'
+export {
+  RECORDING_MIME_TYPES,
+  createRecordingFileName,
+  downloadBlob,
+  getSupportedRecordingMimeType,
+  isRecordingSupported,
+} from './recordingFormats'
+export { RecordingState, StreamRecorder } from './StreamRecorder'
+export type { Recording, StreamRecorderHandlers } from './StreamRecorder'
+export { useRecorder } from './useRecorder'
+export type { Recorder } from './useRecorder'
@@ -0,0 +1,36 @@
+// Containers and codecs to record in, the first one the browser supports wins
+export const RECORDING_MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4',
+]
+
+export const isRecordingSupported = () => typeof MediaRecorder !== 'undefined'
+
+// `null` lets the browser pick its default format
+export const getSupportedRecordingMimeType = (): string | null =>
+  (isRecordingSupported() &&
+    RECORDING_MIME_TYPES.find((mimeType) =>
+      MediaRecorder.isTypeSupported(mimeType),
+    )) ||
+  null
+
+const getFileExtension = (mimeType: string) =>
+  mimeType.startsWith('video/mp4') ? 'mp4' : 'webm'
+
+// e.g. "recording-2026-10-19T14-05-00.webm"
+export const createRecordingFileName = (mimeType: string, date = new Date()) =>
+  `recording-${date.toISOString().slice(0, 19).replace(/:/g, '-')}.${getFileExtension(mimeType)}`
+
+// Let the browser save a file, as if a link to it was clicked
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Give the download a moment to start before freeing the file
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
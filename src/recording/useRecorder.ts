@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { EventCode } from '../event-log'
+import { formatTime } from '../playback'
+
+import { RecordingState, StreamRecorder } from './StreamRecorder'
+import { downloadBlob, isRecordingSupported } from './recordingFormats'
+
+/**
+ * Record a stream and download the file when the recording stops, reporting
+ * progress with the given status function
+ */
+export function useRecorder(
+  report: (code: EventCode, message: string, error?: unknown) => void,
+) {
+  const recorderRef = useRef<StreamRecorder | null>(null)
+  const [state, setState] = useState<RecordingState>(RecordingState.INACTIVE)
+  // Milliseconds recorded, pauses excluded
+  const [elapsed, setElapsed] = useState(0)
+
+  // Move the timer forward while recording
+  useEffect(() => {
+    if (state !== RecordingState.RECORDING) {
+      return
+    }
+    const interval = setInterval(
+      () => setElapsed(recorderRef.current?.getElapsed() ?? 0),
+      500,
+    )
+    return () => clearInterval(interval)
+  }, [state])
+
+  const start = useCallback(
+    (stream: MediaStream) => {
+      if (recorderRef.current) {
+        return
+      }
+      try {
+        const recorder = new StreamRecorder(stream, {
+          onStateChange: (state) => {
+            setState(state)
+            setElapsed(recorder.getElapsed())
+          },
+          onStop: (recording) => {
+            recorderRef.current = null
+            if (recording.interrupted) {
+              report(
+                EventCode.RECORDING_INTERRUPTED,
+                'Recording stopped as the recorded source changed',
+              )
+            }
+            if (recording.blob.size === 0) {
+              report(EventCode.RECORDING_FAILED, 'Nothing was recorded')
+              return
+            }
+            downloadBlob(recording.blob, recording.fileName)
+            report(
+              EventCode.RECORDING_SAVED,
+              `Recording saved as ${recording.fileName} (${formatTime(recording.duration / 1000)})`,
+            )
+          },
+          onError: (error) =>
+            report(EventCode.RECORDING_FAILED, 'Recording failed', error),
+        })
+        recorder.start()
+        recorderRef.current = recorder
+        report(
+          EventCode.RECORDING_STARTED,
+          `Recording as ${recorder.getMimeType()}`,
+        )
+      } catch (error) {
+        report(EventCode.RECORDING_FAILED, 'Could not start recording', error)
+      }
+    },
+    [report],
+  )
+
+  const pause = useCallback(() => recorderRef.current?.pause(), [])
+
+  const resume = useCallback(() => recorderRef.current?.resume(), [])
+
+  // Stop and download what was recorded, if recording
+  const stop = useCallback(() => recorderRef.current?.stop(), [])
+
+  // Keep what was recorded when the component goes away
+  useEffect(() => stop, [stop])
+
+  return {
+    isSupported: isRecordingSupported(),
+    state,
+    elapsed,
+    start,
+    pause,
+    resume,
+    stop,
+  }
+}
+
+export type Recorder = ReturnType<typeof useRecorder>
@@ -0,0 +1,30 @@
+import { SELF_TEST_STEP_LABELS, type StepResult } from './SelfTestRun'
+
+interface SelfTestResultsProps {
+  results: StepResult[]
+}
+
+export function SelfTestResults({ results }: SelfTestResultsProps) {
+  return (
+    <table className="self-test-results">
+      <thead>
+        <tr>
+          <th>Step</th>
+          <th>Result</th>
+          <th>Time</th>
+          <th>Details</th>
+        </tr>
+      </thead>
+      <tbody>
+        {results.map(({ step, status, duration, detail }) => (
+          <tr key={step} className={status}>
+            <td>{SELF_TEST_STEP_LABELS[step]}</td>
+            <td className="self-test-status">{status}</td>
+            <td>{duration === null ? '' : `${Math.round(duration)} ms`}</td>
+            <td>{detail}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
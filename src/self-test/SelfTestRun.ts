@@ -0,0 +1,358 @@
+import { EventCode, createLogEvent, eventLog } from '../event-log'
+import {
+  InMemoryTransport,
+  type ResolvedIceConfig,
+  MessageType,
+  PeerRole,
+  WebRTConnectionService,
+  captureVideoStreamWhenReady,
+  createPairingToken,
+} from '../web-rtc'
+
+export const SelfTestStep = {
+  VIDEO_LOAD: 'videoLoad',
+  CAPTURE: 'capture',
+  NEGOTIATION: 'negotiation',
+  ICE: 'ice',
+  FIRST_FRAME: 'firstFrame',
+  PLAY_PAUSE_SYNC: 'playPauseSync',
+} as const
+
+export type SelfTestStep = (typeof SelfTestStep)[keyof typeof SelfTestStep]
+
+export const SELF_TEST_STEP_LABELS: Record<SelfTestStep, string> = {
+  [SelfTestStep.VIDEO_LOAD]: 'Video load',
+  [SelfTestStep.CAPTURE]: 'Video capture',
+  [SelfTestStep.NEGOTIATION]: 'Offer and answer',
+  [SelfTestStep.ICE]: 'ICE connection',
+  [SelfTestStep.FIRST_FRAME]: 'First decoded frame',
+  [SelfTestStep.PLAY_PAUSE_SYNC]: 'Play and pause sync',
+}
+
+export const StepStatus = {
+  PENDING: 'pending',
+  RUNNING: 'running',
+  PASSED: 'passed',
+  FAILED: 'failed',
+  /** Not run because an earlier step failed */
+  SKIPPED: 'skipped',
+} as const
+
+export type StepStatus = (typeof StepStatus)[keyof typeof StepStatus]
+
+export interface StepResult {
+  step: SelfTestStep
+  status: StepStatus
+  /** Milliseconds the step took, `null` until it ran */
+  duration: number | null
+  detail: string
+}
+
+/** Milliseconds a step may take before it fails */
+export const STEP_TIMEOUT = 10000
+
+const POLL_INTERVAL = 50
+
+export interface SelfTestElements {
+  /** Plays the video and sends it, like the primary window */
+  primaryVideo: HTMLVideoElement
+  /** Shows the received stream, like a secondary window */
+  secondaryVideo: HTMLVideoElement
+  videoSrc: string
+}
+
+class SelfTestStoppedError extends Error {
+  constructor() {
+    super('The self-test was stopped')
+    this.name = 'SelfTestStoppedError'
+  }
+}
+
+const formatSize = (video: HTMLVideoElement) =>
+  `${video.videoWidth}×${video.videoHeight}`
+
+// Types of the local and remote candidates the connection uses
+const describeCandidatePair = async (
+  peerConnection: RTCPeerConnection,
+): Promise<string> => {
+  const stats = await peerConnection.getStats()
+  for (const report of stats.values()) {
+    if (
+      report.type === 'candidate-pair' &&
+      (report.nominated || report.selected) &&
+      report.state === 'succeeded'
+    ) {
+      const local = stats.get(report.localCandidateId)
+      const remote = stats.get(report.remoteCandidateId)
+      return `${local?.candidateType ?? '?'} ↔ ${remote?.candidateType ?? '?'} candidates`
+    }
+  }
+  return 'Connected'
+}
+
+/**
+ * Runs a primary and a secondary connection service in this page over an
+ * in-memory transport and checks each step from loading the video to
+ * syncing the playback, so a failure points at its cause.
+ */
+export class SelfTestRun {
+  private elements: SelfTestElements
+  private onUpdate: (results: StepResult[]) => void
+  private results: StepResult[]
+  private primary: WebRTConnectionService | null = null
+  private secondary: WebRTConnectionService | null = null
+  private stream: MediaStream | null = null
+  private stopped = false
+
+  constructor(
+    elements: SelfTestElements,
+    onUpdate: (results: StepResult[]) => void,
+  ) {
+    this.elements = elements
+    this.onUpdate = onUpdate
+    this.results = Object.values(SelfTestStep).map((step) => ({
+      step,
+      status: StepStatus.PENDING,
+      duration: null,
+      detail: '',
+    }))
+  }
+
+  public getResults(): StepResult[] {
+    return this.results
+  }
+
+  /** ICE configuration of the test connection, once it is set up */
+  public getIceConfig(): ResolvedIceConfig | null {
+    return this.primary?.getIceConfig() ?? null
+  }
+
+  /** Run the steps in turn, stopping at the first failure */
+  public async run(): Promise<StepResult[]> {
+    const steps: Record<SelfTestStep, () => Promise<string>> = {
+      [SelfTestStep.VIDEO_LOAD]: () => this.loadVideo(),
+      [SelfTestStep.CAPTURE]: () => this.capture(),
+      [SelfTestStep.NEGOTIATION]: () => this.negotiate(),
+      [SelfTestStep.ICE]: () => this.connect(),
+      [SelfTestStep.FIRST_FRAME]: () => this.waitForFirstFrame(),
+      [SelfTestStep.PLAY_PAUSE_SYNC]: () => this.syncPlayback(),
+    }
+    let failed = false
+    for (const { step } of this.results) {
+      if (this.stopped) {
+        break
+      }
+      if (failed) {
+        this.update(step, { status: StepStatus.SKIPPED })
+        continue
+      }
+      this.update(step, { status: StepStatus.RUNNING })
+      const startedAt = performance.now()
+      try {
+        const detail = await steps[step]()
+        this.update(step, {
+          status: StepStatus.PASSED,
+          duration: performance.now() - startedAt,
+          detail,
+        })
+        eventLog.add(
+          createLogEvent(
+            EventCode.SELF_TEST_PASSED,
+            `${SELF_TEST_STEP_LABELS[step]}: ${detail}`,
+          ),
+        )
+      } catch (error) {
+        if (error instanceof SelfTestStoppedError) {
+          break
+        }
+        failed = true
+        const event = createLogEvent(
+          EventCode.SELF_TEST_FAILED,
+          `${SELF_TEST_STEP_LABELS[step]} failed`,
+          error,
+        )
+        this.update(step, {
+          status: StepStatus.FAILED,
+          duration: performance.now() - startedAt,
+          detail: event.errorName
+            ? `${event.errorName}: ${event.message}`
+            : event.message,
+        })
+        eventLog.add(event)
+      }
+    }
+    return this.results
+  }
+
+  /** Stop the run and release the connections */
+  public stop(): void {
+    this.stopped = true
+    this.primary?.cleanup()
+    this.secondary?.cleanup()
+    this.primary = null
+    this.secondary = null
+    for (const track of this.stream?.getTracks() ?? []) {
+      track.stop()
+    }
+    this.stream = null
+    this.elements.primaryVideo.pause()
+  }
+
+  private update(step: SelfTestStep, changes: Partial<StepResult>): void {
+    this.results = this.results.map((result) =>
+      result.step === step ? { ...result, ...changes } : result,
+    )
+    this.onUpdate(this.results)
+  }
+
+  // Poll until the condition holds, the run stops or the step times out
+  private waitFor(condition: () => boolean, what: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const startedAt = performance.now()
+      const check = () => {
+        if (this.stopped) {
+          reject(new SelfTestStoppedError())
+        } else if (condition()) {
+          resolve()
+        } else if (performance.now() - startedAt > STEP_TIMEOUT) {
+          reject(
+            new Error(
+              `Timed out after ${STEP_TIMEOUT / 1000} s waiting for ${what}`,
+            ),
+          )
+        } else {
+          setTimeout(check, POLL_INTERVAL)
+        }
+      }
+      check()
+    })
+  }
+
+  private async loadVideo(): Promise<string> {
+    const video = this.elements.primaryVideo
+    let error: string | null = null
+    const handleError = () => {
+      error = video.error?.message || `Could not load ${video.currentSrc}`
+    }
+    video.addEventListener('error', handleError)
+    try {
+      video.muted = true
+      video.src = this.elements.videoSrc
+      await this.waitFor(
+        () =>
+          error !== null ||
+          video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA,
+        'the video to load',
+      )
+    } finally {
+      video.removeEventListener('error', handleError)
+    }
+    if (error !== null) {
+      throw new Error(error)
+    }
+    return Number.isFinite(video.duration)
+      ? `${formatSize(video)}, ${video.duration.toFixed(1)} s`
+      : formatSize(video)
+  }
+
+  private async capture(): Promise<string> {
+    const stream = await captureVideoStreamWhenReady(this.elements.primaryVideo)
+    if (this.stopped) {
+      for (const track of stream.getTracks()) {
+        track.stop()
+      }
+      throw new SelfTestStoppedError()
+    }
+    this.stream = stream
+    const [videoTrack] = stream.getVideoTracks()
+    if (!videoTrack || videoTrack.readyState !== 'live') {
+      throw new Error('The captured stream has no live video track')
+    }
+    return `${stream.getVideoTracks().length} video, ${stream.getAudioTracks().length} audio tracks`
+  }
+
+  private async negotiate(): Promise<string> {
+    if (!this.stream) {
+      throw new Error('Nothing was captured')
+    }
+    const [primaryTransport, secondaryTransport] =
+      InMemoryTransport.createPair()
+    const pairingToken = createPairingToken()
+    const { secondaryVideo } = this.elements
+    this.secondary = new WebRTConnectionService(
+      PeerRole.SECONDARY,
+      secondaryTransport,
+      secondaryVideo,
+      (event) => event && eventLog.add(event, 'Self-test secondary'),
+      // Follow the primary like a secondary window does
+      (message) => {
+        if (message.type === MessageType.PAUSE) {
+          secondaryVideo.pause()
+        } else if (message.type === MessageType.PLAY) {
+          secondaryVideo.play()
+        }
+      },
+      { pairingToken },
+    )
+    this.primary = new WebRTConnectionService(
+      PeerRole.PRIMARY,
+      primaryTransport,
+      this.elements.primaryVideo,
+      (event) => event && eventLog.add(event, 'Self-test primary'),
+      () => {},
+      { pairingToken },
+    )
+    await this.primary.createOffer(this.stream)
+    const primaryConnection = this.primary.getPeerConnection()
+    await this.waitFor(
+      () =>
+        primaryConnection?.signalingState === 'stable' &&
+        primaryConnection.remoteDescription?.type === 'answer',
+      'the answer of the secondary',
+    )
+    return 'Offer and answer exchanged'
+  }
+
+  private async connect(): Promise<string> {
+    const primaryConnection = this.primary?.getPeerConnection()
+    await this.waitFor(
+      () =>
+        primaryConnection?.connectionState === 'connected' &&
+        this.secondary?.getPeerConnection()?.connectionState === 'connected',
+      'both peers to connect',
+    )
+    return primaryConnection ? describeCandidatePair(primaryConnection) : ''
+  }
+
+  private async waitForFirstFrame(): Promise<string> {
+    const video = this.elements.secondaryVideo
+    await this.waitFor(
+      () =>
+        video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA &&
+        video.videoWidth > 0,
+      'a frame on the secondary video',
+    )
+    return formatSize(video)
+  }
+
+  private async syncPlayback(): Promise<string> {
+    await this.waitFor(
+      () =>
+        Boolean(
+          this.primary?.isControlChannelOpen() &&
+            this.secondary?.isControlChannelOpen(),
+        ),
+      'the control channel to open',
+    )
+    const video = this.elements.secondaryVideo
+    const pauseStartedAt = performance.now()
+    this.primary?.sendControl({ type: MessageType.PAUSE })
+    await this.waitFor(() => video.paused, 'the secondary video to pause')
+    const pauseTime = performance.now() - pauseStartedAt
+    const playStartedAt = performance.now()
+    this.primary?.sendControl({ type: MessageType.PLAY })
+    await this.waitFor(() => !video.paused, 'the secondary video to play')
+    const playTime = performance.now() - playStartedAt
+    return `Paused after ${Math.round(pauseTime)} ms, playing after ${Math.round(playTime)} ms`
+  }
+}
@@ -0,0 +1,10 @@
+export {
+  SELF_TEST_STEP_LABELS,
+  STEP_TIMEOUT,
+  SelfTestRun,
+  SelfTestStep,
+  StepStatus,
+} from './SelfTestRun'
+export type { SelfTestElements, StepResult } from './SelfTestRun'
+export { SelfTestResults } from './SelfTestResults'
+export { useSelfTest } from './useSelfTest'
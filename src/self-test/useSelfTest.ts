@@ -0,0 +1,57 @@
+import { type RefObject, useCallback, useEffect, useRef, useState } from 'react'
+
+import { SelfTestRun, StepStatus, type StepResult } from './SelfTestRun'
+
+/**
+ * Run the self-test with the given video elements once they are mounted, and
+ * again on demand
+ */
+export function useSelfTest(
+  primaryVideoRef: RefObject<HTMLVideoElement | null>,
+  secondaryVideoRef: RefObject<HTMLVideoElement | null>,
+  videoSrc: string,
+) {
+  const runRef = useRef<SelfTestRun | null>(null)
+  const [results, setResults] = useState<StepResult[]>([])
+
+  const start = useCallback(() => {
+    runRef.current?.stop()
+    runRef.current = null
+    const primaryVideo = primaryVideoRef.current
+    const secondaryVideo = secondaryVideoRef.current
+    if (!primaryVideo || !secondaryVideo) {
+      return
+    }
+    const run = new SelfTestRun(
+      { primaryVideo, secondaryVideo, videoSrc },
+      (results) => {
+        // Ignore a run that was replaced meanwhile
+        if (runRef.current === run) {
+          setResults(results)
+        }
+      },
+    )
+    runRef.current = run
+    setResults(run.getResults())
+    run.run()
+  }, [primaryVideoRef, secondaryVideoRef, videoSrc])
+
+  // The connections stay up after the run, to watch the video
+  useEffect(() => {
+    start()
+    return () => {
+      runRef.current?.stop()
+      runRef.current = null
+    }
+  }, [start])
+
+  return {
+    results,
+    isRunning: results.some(
+      ({ status }) =>
+        status === StepStatus.PENDING || status === StepStatus.RUNNING,
+    ),
+    start,
+    getIceConfig: () => runRef.current?.getIceConfig() ?? null,
+  }
+}
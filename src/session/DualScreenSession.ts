@@ -0,0 +1,259 @@
+// Modules rather than barrels are imported where the barrels also export
+// React components, so a session can be bundled without React
+import { EventCode, type LogEvent, createLogEvent } from '../event-log/events'
+import {
+  type AnnotationsMessage,
+  type IceConfig,
+  type ReconnectOptions,
+  type RecoveryProgress,
+  RecoveryState,
+  type ResolvedIceConfig,
+  resolveIceConfig,
+} from '../web-rtc'
+
+import { TypedEventTarget } from './TypedEventTarget'
+
+/** Something that happened in a session, worth showing and logging */
+export interface SessionStatus {
+  event: LogEvent
+  /** Secondary window it concerns, on the primary */
+  windowId: string | null
+  /** Label of that window, to prefix the message with */
+  context?: string
+}
+
+/** Events of both ends of a session */
+export interface DualScreenSessionEvents {
+  status: SessionStatus
+  /** The video on this screen was played or paused */
+  pausedChange: { paused: boolean }
+  /** Annotations drawn on another screen */
+  annotations: { message: AnnotationsMessage; windowId: string | null }
+  /** The connection to a secondary window, or on a secondary to the primary, is set up */
+  connected: { windowId: string | null }
+  /** The connection failed and the primary is setting it up again */
+  reconnecting: {
+    windowId: string | null
+    attempt: number
+    maxAttempts: number
+  }
+  /** That connection ended, or could not be recovered */
+  disconnected: { windowId: string | null }
+}
+
+/** What both ends of a session pass on to their connections */
+export interface ConnectionSettings {
+  /**
+   * STUN and TURN servers to use, by default taken from the URL or the
+   * environment
+   */
+  iceConfig?: IceConfig
+  /** How a lost connection is recovered, driven by the primary */
+  reconnect?: Partial<ReconnectOptions>
+}
+
+export class SessionClosedError extends Error {
+  constructor() {
+    super('The connection ended before it was set up')
+    this.name = 'SessionClosedError'
+  }
+}
+
+export class ConnectionTimeoutError extends Error {
+  constructor() {
+    super('The connection was not set up in time')
+    this.name = 'ConnectionTimeoutError'
+  }
+}
+
+/** Milliseconds `whenConnected` waits by default, e.g. for a window to load */
+export const CONNECT_TIMEOUT = 30000
+
+/**
+ * What the primary and the secondary ends of a dual-screen session share:
+ * typed events, playback of the local video and waiting for a connection. The
+ * sessions do not depend on any framework, the React hooks are a thin layer
+ * on top.
+ */
+export abstract class DualScreenSession<
+  Events extends DualScreenSessionEvents,
+> extends TypedEventTarget<Events> {
+  protected getVideo: () => HTMLVideoElement | null
+  protected connectionSettings: ConnectionSettings
+  private paused = false
+  // Connections that are up, by secondary window id (`null` on a secondary)
+  private connectedWindows = new Set<string | null>()
+
+  constructor(
+    getVideo: () => HTMLVideoElement | null,
+    { iceConfig, reconnect }: ConnectionSettings = {},
+  ) {
+    super()
+    this.getVideo = getVideo
+    this.connectionSettings = { iceConfig, reconnect }
+  }
+
+  /** Start connecting, once the video element is available */
+  public abstract start(): void
+
+  /** End every connection and stop listening */
+  public abstract stop(): void
+
+  /** Play the video here and on the other screens */
+  public abstract play(): Promise<void>
+
+  /** Pause the video here and on the other screens */
+  public abstract pause(): void
+
+  /** ICE configuration of the connections and where it comes from */
+  public getIceConfig(): ResolvedIceConfig {
+    return resolveIceConfig(this.connectionSettings.iceConfig)
+  }
+
+  public isPaused(): boolean {
+    return this.paused
+  }
+
+  public async togglePause(): Promise<void> {
+    const video = this.getVideo()
+    if (!video) {
+      return
+    }
+    if (video.paused) {
+      await this.play()
+    } else {
+      this.pause()
+    }
+  }
+
+  /**
+   * Resolves the next time the connection to the given secondary window, or
+   * on a secondary to the primary, is set up. Rejects with a
+   * `SessionClosedError` if it ends first, with a `ConnectionTimeoutError`
+   * after `timeout` milliseconds, `null` waits as long as it takes.
+   */
+  public whenConnected(
+    windowId: string | null = null,
+    timeout: number | null = CONNECT_TIMEOUT,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const subscriptions: (() => void)[] = []
+      const settle = (done: () => void) => {
+        for (const unsubscribe of subscriptions) {
+          unsubscribe()
+        }
+        done()
+      }
+      if (timeout !== null) {
+        const timer = setTimeout(
+          () => settle(() => reject(new ConnectionTimeoutError())),
+          timeout,
+        )
+        subscriptions.push(() => clearTimeout(timer))
+      }
+      subscriptions.push(
+        this.on('connected', (detail) => {
+          if (detail.windowId === windowId) {
+            settle(resolve)
+          }
+        }),
+        this.on('disconnected', (detail) => {
+          if (detail.windowId === windowId) {
+            settle(() => reject(new SessionClosedError()))
+          }
+        }),
+      )
+    })
+  }
+
+  // Follow the state of a peer connection: it is connected once media can
+  // flow, not when the offer or answer went out
+  protected handleConnectionState(
+    windowId: string | null,
+    state: RTCPeerConnectionState,
+  ): void {
+    if (state === 'connected') {
+      if (!this.connectedWindows.has(windowId)) {
+        this.connectedWindows.add(windowId)
+        this.emitShared('connected', { windowId })
+      }
+    } else if (state === 'failed') {
+      // Not over yet, the recovery of the primary takes it from here
+      this.connectedWindows.delete(windowId)
+    } else if (state === 'connecting') {
+      // A new peer connection, e.g. after the other window reloaded
+      this.connectedWindows.delete(windowId)
+    }
+  }
+
+  // Follow the recovery of a failed connection, which ends it once it gives
+  // up
+  protected handleRecovery(
+    windowId: string | null,
+    { state, attempt, maxAttempts }: RecoveryProgress,
+  ): void {
+    if (state === RecoveryState.GAVE_UP) {
+      this.endConnection(windowId)
+    } else if (state !== RecoveryState.IDLE) {
+      this.emitShared('reconnecting', { windowId, attempt, maxAttempts })
+    }
+  }
+
+  protected isConnected(windowId: string | null): boolean {
+    return this.connectedWindows.has(windowId)
+  }
+
+  // The connection failed, could not be set up or was closed
+  protected endConnection(windowId: string | null): void {
+    this.connectedWindows.delete(windowId)
+    this.emitShared('disconnected', { windowId })
+  }
+
+  // Play or pause the video here, e.g. as another screen asked. Playing can
+  // fail, e.g. when a seek interrupts it or autoplay with sound is blocked:
+  // that is reported rather than rejected, callers need not handle it.
+  protected async applyPaused(paused: boolean): Promise<void> {
+    const video = this.getVideo()
+    if (!video) {
+      return
+    }
+    this.setPaused(paused)
+    if (paused) {
+      video.pause()
+      return
+    }
+    try {
+      await video.play()
+    } catch (error) {
+      this.setPaused(video.paused)
+      this.report(EventCode.PLAYBACK_FAILED, 'Could not play the video', error)
+    }
+  }
+
+  protected setPaused(paused: boolean): void {
+    if (paused !== this.paused) {
+      this.paused = paused
+      this.emitShared('pausedChange', { paused })
+    }
+  }
+
+  protected report(code: EventCode, message: string, error?: unknown): void {
+    this.reportEvent(createLogEvent(code, message, error))
+  }
+
+  protected reportEvent(
+    event: LogEvent,
+    windowId: string | null = null,
+    context?: string,
+  ): void {
+    this.emitShared('status', { event, windowId, context })
+  }
+
+  // The events of every session, whatever else it emits
+  private emitShared<Type extends keyof DualScreenSessionEvents>(
+    type: Type,
+    detail: DualScreenSessionEvents[Type],
+  ): void {
+    this.dispatchEvent(new CustomEvent(type, { detail }))
+  }
+}
@@ -0,0 +1,981 @@
+import {
+  type CompositorLayout,
+  DEFAULT_COMPOSITOR_LAYOUT,
+} from '../compositor/compositorLayout'
+import {
+  DEFAULT_VIEW_OPTIONS,
+  type DualScreenRoute,
+  ScreenRole,
+  buildRouteUrl,
+} from '../dual-screen/route'
+import {
+  EventCode,
+  EventSeverity,
+  type LogEvent,
+  createLogEvent,
+  getEventSeverity,
+} from '../event-log/events'
+import { LatencyProbe } from '../latency/LatencyProbe'
+import { FrameMarkerLog } from '../latency/frameMarker'
+import {
+  DEFAULT_LATENCY_SETTINGS,
+  type LatencyEstimate,
+  type LatencySettings,
+  SyncMode,
+  planJitterBufferTargets,
+  planPrimaryDelay,
+} from '../latency/latency'
+import {
+  type CapturedSource,
+  MEDIA_SOURCE_LABELS,
+  MediaSourceKind,
+  captureMediaSource,
+} from '../media-source/mediaSource'
+import {
+  applyPlaybackCommand,
+  readPlaybackState,
+  watchPlaybackState,
+} from '../playback/playbackState'
+import type { Status } from '../useStatus'
+import {
+  AudioRouting,
+  BroadcastChannelTransport,
+  type CaptionCue,
+  type ChannelMessage,
+  type ControlMessage,
+  DEFAULT_QUALITY_SETTINGS,
+  ICE_SEARCH_PARAM_NAMES,
+  MessageType,
+  PeerRole,
+  type PlaybackState,
+  PostMessageTransport,
+  type ProtocolMessage,
+  type QualitySettings,
+  type SignalingTransport,
+  type StatsListener,
+  WebRTConnectionService,
+  createPairingToken,
+  listenForBroadcastPeers,
+  parseMessage,
+  withPairingToken,
+} from '../web-rtc'
+import type { OpenWindowOptions } from '../window-placement/useScreenPlacement'
+import {
+  DEFAULT_WINDOW_FEATURES,
+  FULLSCREEN_SEARCH_PARAM_NAME,
+} from '../window-placement/windowFeatures'
+
+import {
+  type ConnectionSettings,
+  ConnectionTimeoutError,
+  type DualScreenSessionEvents,
+  DualScreenSession,
+} from './DualScreenSession'
+import {
+  type StoredSession,
+  loadBroadcastPairingToken,
+  loadPeerId,
+  saveSessions,
+  takeStoredSessions,
+} from './reloadStorage'
+
+// A secondary window receiving the video, with its own peer connection
+interface SecondaryConnection {
+  id: string
+  label: string
+  // Only set for windows opened by this window
+  window: Window | null
+  pairingToken: string
+  service: WebRTConnectionService
+  closeCheckInterval: number | null
+  latencyProbe: LatencyProbe
+  // Jitter buffer target requested to align it with the other windows
+  jitterBufferTarget: number | null
+}
+
+/** What the UI needs to know about a secondary window */
+export interface SecondaryWindowInfo {
+  id: string
+  label: string
+  canFocus: boolean
+  status: Status
+  latency: LatencyEstimate | null
+}
+
+/** Role and view options of a secondary window to open */
+export type SecondaryRoute = Omit<DualScreenRoute, 'sessionId'>
+
+export const DEFAULT_SECONDARY_ROUTE: SecondaryRoute = {
+  role: ScreenRole.SECONDARY,
+  view: DEFAULT_VIEW_OPTIONS,
+}
+
+export interface PrimarySessionEvents extends DualScreenSessionEvents {
+  /** A secondary window was added, removed or changed state */
+  windowsChange: { windows: SecondaryWindowInfo[] }
+  /** Another source is shared, `preview` is its stream unless it is the video */
+  sourceChange: { kind: MediaSourceKind; preview: MediaStream | null }
+  /** Milliseconds the video should be shown late here to match the secondary windows */
+  primaryDelayChange: { delay: number }
+}
+
+export interface PrimarySessionOptions extends ConnectionSettings {
+  /** Video played here, captured for and followed by the secondary windows */
+  getVideo: () => HTMLVideoElement | null
+  /**
+   * Messages that bring a connected window up to date, besides the playback
+   * state, captions and audio routing, e.g. the annotations
+   */
+  getInitialMessages?: () => ChannelMessage[]
+}
+
+export class WindowBlockedError extends Error {
+  constructor() {
+    super('The secondary window was blocked')
+    this.name = 'WindowBlockedError'
+  }
+}
+
+// Address of a secondary window, served by this app, with the ICE
+// configuration of this window
+const getSecondaryUrl = (route: DualScreenRoute) => {
+  const url = buildRouteUrl(
+    route,
+    new URL(window.location.pathname, window.location.origin),
+  )
+  const search = new URLSearchParams(window.location.search)
+  for (const name of Object.values(ICE_SEARCH_PARAM_NAMES)) {
+    const value = search.get(name)
+    if (value !== null) {
+      url.searchParams.set(name, value)
+    }
+  }
+  return url
+}
+
+// Milliseconds the secondary windows of the page before a reload have to
+// announce themselves
+const REATTACH_TIMEOUT = 60000
+
+const CLOSE_CHECK_INTERVAL = 500
+
+// Errors after which a connection being set up will not come up by itself
+const SETUP_FAILURES = new Set<EventCode>([
+  EventCode.OFFER_FAILED,
+  EventCode.NEGOTIATION_FAILED,
+])
+
+const isAnnouncement = (message: ProtocolMessage) =>
+  message.type === MessageType.WINDOW_READY ||
+  message.type === MessageType.WINDOW_RELOADED
+
+/**
+ * The primary end of a dual-screen session: opens the secondary windows or
+ * finds the tabs paired by hand, sets up a connection to each, reattaches
+ * them after a reload and keeps their playback in sync with the video here
+ */
+export class PrimaryScreenSession extends DualScreenSession<PrimarySessionEvents> {
+  /** Address pairing a tab opened by hand with this window */
+  public readonly pairingLink: string
+
+  private options: PrimarySessionOptions
+  private connections = new Map<string, SecondaryConnection>()
+  private windows: SecondaryWindowInfo[] = []
+  private windowCount = 0
+  private qualitySettings: QualitySettings = DEFAULT_QUALITY_SETTINGS
+  // Captured once and shared between all peer connections
+  private source: Promise<CapturedSource> | null = null
+  // Layout of the picture-in-picture source, kept when switching sources
+  private compositorLayout: CompositorLayout = DEFAULT_COMPOSITOR_LAYOUT
+  // Drawn into the picture-in-picture source when enabled
+  private frameMarkers: FrameMarkerLog | null = null
+  private latencySettings: LatencySettings = DEFAULT_LATENCY_SETTINGS
+  private primaryDelay = 0
+  private captions: CaptionCue[] = []
+  private audioRouting: AudioRouting = AudioRouting.PRIMARY
+  // Id of this window on the broadcast channel
+  private peerId: string
+  // Pairs tabs opened by hand with the pairing link, windows opened by this
+  // window get a token of their own
+  private broadcastPairingToken: string
+  // Secondary windows of the page before a reload, until they announce
+  // themselves again
+  private pendingSessions: Map<string, StoredSession> | null = null
+  private reattachDeadline = 0
+  private droppedAnnouncements = 0
+  private unsubscribes: (() => void)[] | null = null
+
+  constructor(options: PrimarySessionOptions) {
+    super(options.getVideo, options)
+    this.options = options
+    this.peerId = loadPeerId()
+    this.broadcastPairingToken = loadBroadcastPairingToken(createPairingToken)
+    this.pairingLink = withPairingToken(
+      getSecondaryUrl({ ...DEFAULT_SECONDARY_ROUTE, sessionId: null }),
+      this.broadcastPairingToken,
+    ).toString()
+  }
+
+  public start(): void {
+    if (this.unsubscribes) {
+      return
+    }
+    this.unsubscribes = [
+      // Listen for secondary tabs opened without a window reference, i.e.
+      // with the pairing link
+      listenForBroadcastPeers(this.handleBroadcastPeer, {
+        localId: this.peerId,
+      }),
+      this.awaitReattachingWindows(),
+    ]
+    const video = this.getVideo()
+    if (video) {
+      this.unsubscribes.push(
+        watchPlaybackState(video, (state) =>
+          this.broadcastPlaybackState(state),
+        ),
+      )
+    }
+  }
+
+  public stop(): void {
+    for (const unsubscribe of this.unsubscribes ?? []) {
+      unsubscribe()
+    }
+    this.unsubscribes = null
+    this.closeAll()
+  }
+
+  public getWindows(): SecondaryWindowInfo[] {
+    return this.windows
+  }
+
+  /**
+   * Open a new secondary window to display the video. Resolves with its id
+   * once it is connected, rejects with a `WindowBlockedError` when pop-ups
+   * are blocked and with a `ConnectionTimeoutError` when it does not connect
+   * in time, e.g. as it never loaded.
+   */
+  public async open(
+    options: OpenWindowOptions = {
+      features: DEFAULT_WINDOW_FEATURES,
+      fullscreen: false,
+    },
+    route: SecondaryRoute = DEFAULT_SECONDARY_ROUTE,
+  ): Promise<string> {
+    const id = crypto.randomUUID()
+    try {
+      this.report(EventCode.WINDOW_OPENING, 'Opening second window...')
+
+      // Open a new window with the same app, in the secondary role
+      const pairingToken = createPairingToken()
+      const secondaryUrl = withPairingToken(
+        getSecondaryUrl({ ...route, sessionId: id }),
+        pairingToken,
+      )
+      if (options.fullscreen) {
+        secondaryUrl.searchParams.set(FULLSCREEN_SEARCH_PARAM_NAME, 'true')
+      }
+      const newWindow = window.open(secondaryUrl, '_blank', options.features)
+      if (!newWindow) {
+        this.report(
+          EventCode.POPUP_BLOCKED,
+          'The secondary window was blocked, allow pop-ups for this website',
+        )
+        throw new WindowBlockedError()
+      }
+      // Talk to the new window via postMessage
+      const connection = this.addConnection(
+        id,
+        new PostMessageTransport(newWindow),
+        newWindow,
+        pairingToken,
+      )
+      this.report(
+        EventCode.WINDOW_OPENING,
+        `Waiting for ${connection.label} to load...`,
+      )
+    } catch (error) {
+      if (!(error instanceof WindowBlockedError)) {
+        this.report(
+          EventCode.WINDOW_OPEN_FAILED,
+          'Error opening second window',
+          error,
+        )
+      }
+      throw error
+    }
+    try {
+      await this.whenConnected(id)
+    } catch (error) {
+      if (error instanceof ConnectionTimeoutError) {
+        this.reportWindowEvent(
+          id,
+          createLogEvent(
+            EventCode.WINDOW_OPEN_FAILED,
+            'The secondary window did not connect in time',
+          ),
+        )
+      }
+      throw error
+    }
+    return id
+  }
+
+  /** Close one secondary window */
+  public close(id: string): void {
+    const connection = this.connections.get(id)
+    if (!connection) {
+      return
+    }
+    if (connection.window) {
+      if (!connection.window.closed) {
+        connection.window.close()
+      }
+    } else {
+      // We cannot close a tab we did not open, so tell it we are leaving
+      connection.service.sendMessage({ type: MessageType.WINDOW_CLOSED })
+    }
+    this.removeConnection(id)
+  }
+
+  public closeAll(): void {
+    for (const id of [...this.connections.keys()]) {
+      this.close(id)
+    }
+  }
+
+  /**
+   * Leave the secondary windows open while this page unloads, e.g. for a
+   * reload, and remember them so the next page can reattach them
+   */
+  public suspend(): void {
+    const stored = [...(this.pendingSessions?.values() ?? [])]
+    for (const connection of this.connections.values()) {
+      // Asks them to announce themselves until a new connection is set up
+      connection.service.sendMessage({ type: MessageType.WINDOW_RELOADING })
+      stored.push({
+        id: connection.id,
+        label: connection.label,
+        pairingToken: connection.pairingToken,
+        isWindow: connection.window !== null,
+      })
+      this.cleanUpConnection(connection)
+    }
+    this.connections.clear()
+    this.pendingSessions?.clear()
+    saveSessions({ sessions: stored, windowCount: this.windowCount })
+    this.setWindows([])
+    this.releaseSource()
+  }
+
+  /** Bring a secondary window opened by this window to the front */
+  public focus(id: string): void {
+    const secondary = this.connections.get(id)?.window
+    if (secondary && !secondary.closed) {
+      secondary.focus()
+    }
+  }
+
+  public play(): Promise<void> {
+    if (!this.getVideo()) {
+      return Promise.resolve()
+    }
+    const playing = this.applyPaused(false)
+    this.broadcast({ type: MessageType.PLAY })
+    return playing
+  }
+
+  public pause(): void {
+    if (!this.getVideo()) {
+      return
+    }
+    this.applyPaused(true)
+    this.broadcast({ type: MessageType.PAUSE })
+  }
+
+  /** Send a control message to every secondary window, except the one it came from */
+  public broadcast(message: ChannelMessage, exceptId?: string): void {
+    for (const connection of this.connections.values()) {
+      if (connection.id !== exceptId) {
+        connection.service.sendControl(message)
+      }
+    }
+  }
+
+  /** Encoding of the video sent to every secondary window */
+  public setQualitySettings(settings: QualitySettings): void {
+    this.qualitySettings = settings
+    for (const connection of this.connections.values()) {
+      connection.service.setQualitySettings(settings)
+    }
+  }
+
+  /** Caption cues currently shown, sent to every secondary window */
+  public setCaptions(cues: CaptionCue[]): void {
+    this.captions = cues
+    this.broadcast({ type: MessageType.CAPTIONS, cues })
+  }
+
+  /** Where the audio plays, the secondary windows unmute themselves if needed */
+  public setAudioRouting(routing: AudioRouting): void {
+    this.audioRouting = routing
+    this.broadcast({ type: MessageType.AUDIO_ROUTING, routing })
+  }
+
+  /** Stream being sent to the secondary windows, `null` until one is connected */
+  public getSharedStream(): Promise<MediaStream> | null {
+    return this.source?.then(({ stream }) => stream) ?? null
+  }
+
+  /** Share another source, switching the tracks of the existing connections */
+  public async changeSource(kind: MediaSourceKind): Promise<void> {
+    const video = this.getVideo()
+    if (!video) {
+      return
+    }
+    let source: CapturedSource
+    try {
+      source = await captureMediaSource(kind, video, {
+        compositorLayout: this.compositorLayout,
+        onCompositorError: (error) =>
+          this.report(
+            EventCode.COMPOSITOR_FAILED,
+            'Picture-in-picture is incomplete',
+            error,
+          ),
+      })
+    } catch (error) {
+      this.report(
+        EventCode.SOURCE_FAILED,
+        `Could not share the ${MEDIA_SOURCE_LABELS[kind].toLowerCase()}`,
+        error,
+      )
+      return
+    }
+    const previous = this.source
+    this.source = Promise.resolve(source)
+    this.emit('sourceChange', {
+      kind,
+      preview: kind === MediaSourceKind.VIDEO ? null : source.stream,
+    })
+    this.watchSource(source)
+    await Promise.all(
+      [...this.connections.values()].map(({ service }) =>
+        service.switchStream(source.stream),
+      ),
+    )
+    previous?.then(
+      (previous) => previous.stop(),
+      () => {},
+    )
+    this.report(
+      EventCode.SOURCE_CHANGED,
+      `Sharing: ${MEDIA_SOURCE_LABELS[kind]}`,
+    )
+  }
+
+  /** Change the picture-in-picture layout, live if it is being shared */
+  public setCompositorLayout(layout: CompositorLayout): void {
+    this.compositorLayout = layout
+    this.source?.then(
+      (source) => source.compositor?.setLayout(layout),
+      () => {},
+    )
+  }
+
+  /** How the latency is measured and the screens are kept in sync */
+  public setLatencySettings(settings: LatencySettings): void {
+    this.latencySettings = settings
+    if (settings.frameMarker !== (this.frameMarkers !== null)) {
+      this.frameMarkers = settings.frameMarker ? new FrameMarkerLog() : null
+      this.source?.then(
+        (source) => source.compositor?.setFrameMarkers(this.frameMarkers),
+        () => {},
+      )
+    }
+    this.planSync()
+  }
+
+  /** Listen for the connection statistics of one secondary window */
+  public subscribeStats(id: string, listener: StatsListener): () => void {
+    return (
+      this.connections.get(id)?.service.subscribeStats(listener) ?? (() => {})
+    )
+  }
+
+  private setWindows(windows: SecondaryWindowInfo[]): void {
+    this.windows = windows
+    this.emit('windowsChange', { windows })
+    this.planSync()
+  }
+
+  // Follow the measured latencies: delay the primary screen or buffer the
+  // faster secondary windows, depending on the mode
+  private planSync(): void {
+    const { syncMode, tolerance } = this.latencySettings
+    const latencies = this.windows.flatMap(({ latency }) =>
+      latency?.glassToGlass != null ? [latency.glassToGlass] : [],
+    )
+    const delay =
+      syncMode === SyncMode.DELAY_PRIMARY
+        ? planPrimaryDelay(latencies, this.primaryDelay, tolerance)
+        : 0
+    if (delay !== this.primaryDelay) {
+      this.primaryDelay = delay
+      this.emit('primaryDelayChange', { delay })
+    }
+    const getTarget = (id: string) =>
+      this.connections.get(id)?.jitterBufferTarget ?? null
+    let targets: Map<string, number | null>
+    if (syncMode === SyncMode.ALIGN_SECONDARIES) {
+      targets = planJitterBufferTargets(
+        this.windows.flatMap(({ id, latency }) =>
+          latency
+            ? [{ id, estimate: latency, jitterBufferTarget: getTarget(id) }]
+            : [],
+        ),
+        tolerance,
+      )
+    } else {
+      targets = new Map(
+        this.windows
+          .filter(({ id }) => getTarget(id) !== null)
+          .map(({ id }) => [id, null]),
+      )
+    }
+    for (const [id, target] of targets) {
+      const connection = this.connections.get(id)
+      if (connection) {
+        connection.jitterBufferTarget = target
+        connection.service.sendControl({
+          type: MessageType.LATENCY_TARGET,
+          jitterBufferTarget: target,
+        })
+      }
+    }
+  }
+
+  // Capture the video stream, or reuse the one already captured
+  private captureSharedStream(): Promise<MediaStream> {
+    if (!this.source) {
+      const video = this.getVideo()
+      if (!video) {
+        return Promise.reject(new Error('Video element is not available'))
+      }
+      const source = captureMediaSource(MediaSourceKind.VIDEO, video)
+      this.source = source
+      source.then(
+        (captured) => this.watchSource(captured),
+        () => {
+          if (this.source === source) {
+            this.source = null
+          }
+        },
+      )
+    }
+    return this.source.then(({ stream }) => stream)
+  }
+
+  // Start using a newly captured source
+  private watchSource(source: CapturedSource): void {
+    const { stream } = source
+    source.compositor?.setFrameMarkers(this.frameMarkers)
+    if (stream.getAudioTracks().length === 0) {
+      this.report(
+        EventCode.NO_AUDIO_TRACK,
+        `${MEDIA_SOURCE_LABELS[source.kind]} has no audio, the secondary windows will be silent`,
+      )
+    }
+    // The captured stream gets new tracks when the video switches to
+    // another source: send them on the existing connections, as long as this
+    // source is the one shared. The video keeps feeding a stream captured
+    // from it after another source replaced it.
+    const sendAddedTrack = async (event: MediaStreamTrackEvent) => {
+      const current = await this.source
+      if (current === source) {
+        for (const connection of this.connections.values()) {
+          connection.service.replaceTrack(event.track)
+        }
+      } else {
+        stream.removeEventListener('addtrack', sendAddedTrack)
+      }
+    }
+    stream.addEventListener('addtrack', sendAddedTrack)
+    // Go back to the video player when a source ends by itself, e.g. the user
+    // stopped sharing the screen from the browser's UI
+    stream.getVideoTracks()[0]?.addEventListener('ended', async () => {
+      if (source.kind !== MediaSourceKind.VIDEO && this.source) {
+        const current = await this.source
+        if (current === source) {
+          this.changeSource(MediaSourceKind.VIDEO)
+        }
+      }
+    })
+  }
+
+  // Stop the shared source once nobody receives it anymore
+  private releaseSource(): void {
+    const source = this.source
+    if (!source) {
+      return
+    }
+    this.source = null
+    this.emit('sourceChange', { kind: MediaSourceKind.VIDEO, preview: null })
+    source.then(
+      (source) => source.stop(),
+      () => {},
+    )
+  }
+
+  private updateWindow(id: string, changes: Partial<SecondaryWindowInfo>) {
+    this.setWindows(
+      this.windows.map((info) =>
+        info.id === id ? { ...info, ...changes } : info,
+      ),
+    )
+  }
+
+  // Show an event of one secondary window
+  private reportWindowEvent(id: string, event: LogEvent): void {
+    this.updateWindow(id, {
+      status: {
+        message: event.message,
+        isError: getEventSeverity(event.code) !== EventSeverity.INFO,
+      },
+    })
+    const connection = this.connections.get(id)
+    if (connection) {
+      this.reportEvent(event, id, connection.label)
+    }
+  }
+
+  // Keep the secondary windows in sync with the playback state
+  private broadcastPlaybackState(state: PlaybackState): void {
+    this.setPaused(state.paused)
+    this.broadcast({ type: MessageType.PLAYBACK_STATE, state })
+  }
+
+  // Register a new secondary window, talking to it over the given transport
+  private addConnection(
+    id: string,
+    transport: SignalingTransport,
+    secondary: Window | null,
+    pairingToken: string,
+    label = `Window ${++this.windowCount}`,
+  ): SecondaryConnection {
+    const service = new WebRTConnectionService(
+      PeerRole.PRIMARY,
+      transport,
+      this.getVideo(),
+      (event) => {
+        if (!event) {
+          return
+        }
+        this.reportWindowEvent(id, event)
+        if (SETUP_FAILURES.has(event.code) && !this.isConnected(id)) {
+          this.endConnection(id)
+        }
+      },
+      (message) => this.handleMessage(id, message),
+      { ...this.connectionSettings, pairingToken },
+    )
+    const connection: SecondaryConnection = {
+      id,
+      label,
+      window: secondary,
+      pairingToken,
+      service,
+      closeCheckInterval: null,
+      latencyProbe: new LatencyProbe(
+        service,
+        () => this.frameMarkers,
+        (latency) => this.updateWindow(id, { latency }),
+      ),
+      jitterBufferTarget: null,
+    }
+    service.setQualitySettings(this.qualitySettings)
+    service.subscribeConnectionState((state) =>
+      this.handleConnectionState(id, state),
+    )
+    service.subscribeRecovery((progress) => this.handleRecovery(id, progress))
+    connection.latencyProbe.start()
+    this.connections.set(id, connection)
+    if (secondary) {
+      // Check if the window is closed periodically
+      connection.closeCheckInterval = setInterval(() => {
+        if (secondary.closed) {
+          this.removeConnection(id)
+        }
+      }, CLOSE_CHECK_INTERVAL)
+    }
+    this.setWindows([
+      ...this.windows,
+      {
+        id,
+        label,
+        canFocus: secondary !== null,
+        status: { message: 'Waiting for window to load...' },
+        latency: null,
+      },
+    ])
+    return connection
+  }
+
+  private cleanUpConnection(connection: SecondaryConnection): void {
+    if (connection.closeCheckInterval) {
+      clearInterval(connection.closeCheckInterval)
+    }
+    connection.latencyProbe.stop()
+    connection.service.cleanup()
+  }
+
+  // Clean up the resources of one secondary window
+  private removeConnection(id: string): void {
+    const connection = this.connections.get(id)
+    if (!connection) {
+      return
+    }
+    this.cleanUpConnection(connection)
+    this.connections.delete(id)
+    this.setWindows(this.windows.filter((info) => info.id !== id))
+    this.endConnection(id)
+    if (this.connections.size === 0) {
+      this.releaseSource()
+    }
+  }
+
+  // Start the WebRTC setup with a secondary window
+  private async connect(id: string): Promise<void> {
+    const connection = this.connections.get(id)
+    if (!connection) {
+      return
+    }
+    // A new or reloaded window buffers as its browser chooses
+    connection.jitterBufferTarget = null
+    try {
+      const stream = await this.captureSharedStream()
+      if (!(await connection.service.createOffer(stream))) {
+        this.endConnection(id)
+        return
+      }
+      // Show the right state right away instead of waiting for the heartbeat
+      const video = this.getVideo()
+      if (video) {
+        connection.service.sendControl({
+          type: MessageType.PLAYBACK_STATE,
+          state: readPlaybackState(video),
+        })
+      }
+      const messages: ChannelMessage[] = [
+        { type: MessageType.CAPTIONS, cues: this.captions },
+        { type: MessageType.AUDIO_ROUTING, routing: this.audioRouting },
+        ...(this.options.getInitialMessages?.() ?? []),
+      ]
+      for (const message of messages) {
+        connection.service.sendControl(message)
+      }
+    } catch (error) {
+      this.reportWindowEvent(
+        id,
+        createLogEvent(
+          EventCode.CAPTURE_FAILED,
+          'Error capturing video',
+          error,
+        ),
+      )
+      this.endConnection(id)
+    }
+  }
+
+  // Handle messages from a secondary window
+  private handleMessage(id: string, message: ControlMessage): void {
+    const video = this.getVideo()
+    switch (message.type) {
+      case MessageType.WINDOW_CLOSED:
+        this.removeConnection(id)
+        break
+      case MessageType.WINDOW_RELOADING:
+        // Secondary window is reloading - don't destroy connection yet
+        this.reportWindowEvent(
+          id,
+          createLogEvent(
+            EventCode.WINDOW_STATE,
+            'Secondary window is reloading...',
+          ),
+        )
+        break
+      case MessageType.WINDOW_RELOADED:
+      case MessageType.WINDOW_READY:
+        // When secondary window is ready after reload or initial load, start WebRTC setup
+        this.reportWindowEvent(
+          id,
+          createLogEvent(
+            EventCode.WINDOW_STATE,
+            'Secondary window is ready, setting up connection...',
+          ),
+        )
+        this.connect(id)
+        break
+      case MessageType.PLAY:
+      case MessageType.PAUSE:
+        this.applyPaused(message.type === MessageType.PAUSE)
+        // Keep the other secondary windows in sync
+        this.broadcast(message, id)
+        break
+      case MessageType.PLAYBACK_COMMAND:
+        if (video) {
+          applyPlaybackCommand(video, message.command)
+          // Not every change fires a media event, e.g. loop
+          this.broadcastPlaybackState(readPlaybackState(video))
+        }
+        break
+      case MessageType.ANNOTATIONS:
+        this.emit('annotations', { message, windowId: id })
+        this.broadcast(message, id)
+        break
+    }
+  }
+
+  // Connect to a secondary tab that announced itself on the broadcast
+  // channel. Tabs without the token of the pairing link are ignored.
+  private handleBroadcastPeer = (
+    remoteId: string,
+    data: unknown,
+    isAddressed: boolean,
+  ): void => {
+    // Tabs of the page before a reload still address this window, the
+    // connected ones are handled by their own transport
+    if (isAddressed && !this.pendingSessions?.has(remoteId)) {
+      return
+    }
+    let message: ProtocolMessage
+    try {
+      message = parseMessage(data, this.broadcastPairingToken)
+    } catch (error) {
+      this.droppedAnnouncements++
+      this.report(
+        EventCode.MESSAGE_REJECTED,
+        `Ignored a tab that is not paired with this window (${this.droppedAnnouncements} dropped so far)`,
+        error,
+      )
+      return
+    }
+    if (!isAnnouncement(message)) {
+      return
+    }
+    // A reloaded tab gets a fresh connection but keeps its label, so does a
+    // tab of the page before a reload
+    const label =
+      this.connections.get(remoteId)?.label ??
+      this.pendingSessions?.get(remoteId)?.label
+    this.pendingSessions?.delete(remoteId)
+    // Swap the connection in place: removing it would stop the shared source
+    // when this tab is the only one
+    const previous = this.connections.get(remoteId)
+    if (previous) {
+      this.cleanUpConnection(previous)
+      this.connections.delete(remoteId)
+      this.windows = this.windows.filter((info) => info.id !== remoteId)
+    }
+    this.addConnection(
+      remoteId,
+      new BroadcastChannelTransport({ localId: this.peerId, remoteId }),
+      null,
+      this.broadcastPairingToken,
+      label,
+    )
+    this.reportWindowEvent(
+      remoteId,
+      createLogEvent(
+        EventCode.WINDOW_STATE,
+        'Secondary tab found, setting up connection...',
+      ),
+    )
+    this.connect(remoteId)
+  }
+
+  // Reattach a window opened by the page before a reload, found by its
+  // announcement
+  private reattachWindow(stored: StoredSession, secondary: Window): void {
+    this.pendingSessions?.delete(stored.id)
+    this.addConnection(
+      stored.id,
+      new PostMessageTransport(secondary),
+      secondary,
+      stored.pairingToken,
+      stored.label,
+    )
+    this.reportWindowEvent(
+      stored.id,
+      createLogEvent(
+        EventCode.WINDOW_STATE,
+        'Secondary window found again, setting up connection...',
+      ),
+    )
+    this.connect(stored.id)
+  }
+
+  // After a reload, wait for the windows opened by the page before to
+  // announce themselves to their opener, i.e. this window. Returns a function
+  // to stop waiting.
+  private awaitReattachingWindows(): () => void {
+    if (!this.pendingSessions) {
+      const { sessions, windowCount } = takeStoredSessions()
+      this.windowCount = windowCount
+      this.reattachDeadline = Date.now() + REATTACH_TIMEOUT
+      this.pendingSessions = new Map(
+        sessions.map((session) => [session.id, session]),
+      )
+    }
+    const pending = this.pendingSessions
+    if (pending.size === 0) {
+      return () => {}
+    }
+    this.report(
+      EventCode.WINDOW_STATE,
+      `Waiting for ${pending.size} secondary window(s) to reconnect...`,
+    )
+    const handleWindowMessage = (event: MessageEvent) => {
+      const source = event.source as Window | null
+      if (
+        event.origin !== window.location.origin ||
+        !source ||
+        [...this.connections.values()].some(
+          (connection) => connection.window === source,
+        )
+      ) {
+        return
+      }
+      // Each window has a token of its own, which tells them apart
+      for (const stored of pending.values()) {
+        if (!stored.isWindow) {
+          continue
+        }
+        try {
+          if (isAnnouncement(parseMessage(event.data, stored.pairingToken))) {
+            this.reattachWindow(stored, source)
+          }
+          return
+        } catch {
+          // Not this window's token
+        }
+      }
+    }
+    window.addEventListener('message', handleWindowMessage)
+    const timeout = setTimeout(() => {
+      window.removeEventListener('message', handleWindowMessage)
+      if (pending.size > 0) {
+        this.report(
+          EventCode.WINDOW_CLOSED,
+          `${pending.size} secondary window(s) did not come back after the reload`,
+        )
+        pending.clear()
+      }
+    }, this.reattachDeadline - Date.now())
+    return () => {
+      window.removeEventListener('message', handleWindowMessage)
+      clearTimeout(timeout)
+    }
+  }
+}
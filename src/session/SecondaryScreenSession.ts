@@ -0,0 +1,358 @@
+import { EventCode, type LogEvent } from '../event-log/events'
+import { LatencyResponder } from '../latency/LatencyResponder'
+import {
+  type AudioRouting,
+  BroadcastChannelTransport,
+  type CaptionCue,
+  type ChannelMessage,
+  type ControlMessage,
+  MessageType,
+  PeerRole,
+  type PlaybackCommand,
+  type PlaybackState,
+  PostMessageTransport,
+  type StatsListener,
+  WebRTConnectionService,
+  getPairingTokenFromUrl,
+} from '../web-rtc'
+
+import {
+  type ConnectionSettings,
+  type DualScreenSessionEvents,
+  DualScreenSession,
+} from './DualScreenSession'
+
+export interface SecondarySessionEvents extends DualScreenSessionEvents {
+  /** Playback state of the primary window, sent when it changes and periodically */
+  playbackState: { state: PlaybackState }
+  /** Caption cues currently shown on the primary */
+  captions: { cues: CaptionCue[] }
+  /** Where the audio plays */
+  audioRouting: { routing: AudioRouting }
+  /** Milliseconds from the primary screen to this one, `null` if unknown */
+  glassToGlass: { latency: number | null }
+}
+
+export interface SecondarySessionOptions extends ConnectionSettings {
+  /** Video showing the stream received from the primary */
+  getVideo: () => HTMLVideoElement | null
+  /** Session id from the address, if any */
+  sessionId: string | null
+  /** Whether this window may play, pause or seek the primary, not on viewers */
+  controlsPlayback: boolean
+}
+
+// Id of this tab on the broadcast channel, kept across reloads so the primary
+// recognizes a reloaded tab. A window opened by the primary uses the session
+// id of its address.
+function getBroadcastPeerId(sessionId: string | null) {
+  if (sessionId) {
+    return sessionId
+  }
+  let peerId = sessionStorage.getItem('peerId')
+  if (!peerId) {
+    peerId = crypto.randomUUID()
+    sessionStorage.setItem('peerId', peerId)
+  }
+  return peerId
+}
+
+// Pairing token passed by the primary in the URL fragment, kept across
+// reloads only: it is removed from the address and the session storage ends
+// with the tab, so a bookmark opened after a browser restart is not paired
+function getPairingToken() {
+  const url = new URL(window.location.href)
+  const token = getPairingTokenFromUrl(url)
+  if (!token) {
+    return sessionStorage.getItem('pairingToken')
+  }
+  sessionStorage.setItem('pairingToken', token)
+  // Keep the token out of the address bar and the history
+  url.hash = ''
+  history.replaceState(history.state, '', url)
+  return token
+}
+
+// While the primary window reloads, announce this window every second, for
+// at most a minute, until the reloaded page connects again
+const REATTACH_INTERVAL = 1000
+const REATTACH_TIMEOUT = 60000
+
+// Gives the page time to load before announcing it to the primary
+const READY_DELAY = 500
+// Announce this window again every second until the primary answers, e.g.
+// when it was opened before the primary window
+const ANNOUNCE_INTERVAL = 1000
+
+/**
+ * The secondary end of a dual-screen session: pairs with the primary window,
+ * receives its video and follows its playback, and asks it to play, pause or
+ * seek
+ */
+export class SecondaryScreenSession extends DualScreenSession<SecondarySessionEvents> {
+  private sessionId: string | null
+  private controlsPlayback: boolean
+  private service: WebRTConnectionService | null = null
+  // Answers the latency pings of the primary window
+  private latencyResponder: LatencyResponder | null = null
+  private readyTimeout: number | null = null
+  private announceInterval: number | null = null
+  private reattachInterval: number | null = null
+
+  constructor({
+    getVideo,
+    sessionId,
+    controlsPlayback,
+    ...connectionSettings
+  }: SecondarySessionOptions) {
+    super(getVideo, connectionSettings)
+    this.sessionId = sessionId
+    this.controlsPlayback = controlsPlayback
+  }
+
+  public start(): void {
+    if (this.readyTimeout !== null) {
+      return
+    }
+    this.report(
+      EventCode.WINDOW_STATE,
+      'Waiting for connection from primary window...',
+    )
+    this.connect()
+    // Send message to opener when this window is closed or reloaded
+    window.addEventListener('beforeunload', this.handleBeforeUnload)
+    this.readyTimeout = setTimeout(this.signalReady, READY_DELAY)
+  }
+
+  public stop(): void {
+    if (this.readyTimeout !== null) {
+      clearTimeout(this.readyTimeout)
+      this.readyTimeout = null
+    }
+    window.removeEventListener('beforeunload', this.handleBeforeUnload)
+    this.stopAnnouncing()
+    this.stopReattaching()
+    this.disconnect()
+  }
+
+  public play(): Promise<void> {
+    if (!this.controlsPlayback || !this.getVideo()) {
+      return Promise.resolve()
+    }
+    const playing = this.applyPaused(false)
+    this.send({ type: MessageType.PLAY })
+    return playing
+  }
+
+  public pause(): void {
+    if (!this.controlsPlayback || !this.getVideo()) {
+      return
+    }
+    this.applyPaused(true)
+    this.send({ type: MessageType.PAUSE })
+  }
+
+  /** Ask the primary window to change its playback */
+  public sendPlaybackCommand(command: PlaybackCommand): void {
+    if (!this.controlsPlayback) {
+      return
+    }
+    this.send({ type: MessageType.PLAYBACK_COMMAND, command })
+  }
+
+  /** Send a control message to the primary window, e.g. annotations */
+  public send(message: ChannelMessage): void {
+    this.service?.sendControl(message)
+  }
+
+  /** Listen for the connection statistics */
+  public subscribeStats(listener: StatsListener): () => void {
+    return this.service?.subscribeStats(listener) ?? (() => {})
+  }
+
+  // Set up the connection to the primary window
+  private connect(): void {
+    this.disconnect()
+    const video = this.getVideo()
+    if (!video) {
+      this.report(
+        EventCode.NO_VIDEO_ELEMENT,
+        'Unable to establish connection with primary window: no video element',
+      )
+      return
+    }
+    const pairingToken = getPairingToken()
+    if (!pairingToken) {
+      this.report(
+        EventCode.PAIRING_MISSING,
+        'This window is not paired: open it from the primary window or with its pairing link',
+      )
+      return
+    }
+    // Talk to the opener directly when we have one, otherwise find the
+    // primary on the broadcast channel
+    const transport = window.opener
+      ? new PostMessageTransport(window.opener)
+      : new BroadcastChannelTransport({
+          localId: getBroadcastPeerId(this.sessionId),
+        })
+    this.service = new WebRTConnectionService(
+      PeerRole.SECONDARY,
+      transport,
+      video,
+      this.handleStatus,
+      this.handleMessage,
+      { ...this.connectionSettings, pairingToken },
+    )
+    this.service.subscribeConnectionState((state) =>
+      this.handleConnectionState(null, state),
+    )
+    this.service.subscribeRecovery((progress) =>
+      this.handleRecovery(null, progress),
+    )
+    this.latencyResponder = new LatencyResponder(
+      this.service,
+      video,
+      (latency) => this.emit('glassToGlass', { latency }),
+    )
+    this.latencyResponder.start()
+  }
+
+  private disconnect(): void {
+    if (!this.service) {
+      return
+    }
+    this.latencyResponder?.stop()
+    this.latencyResponder = null
+    this.service.cleanup()
+    this.service = null
+    this.endConnection(null)
+  }
+
+  private startReattaching(): void {
+    this.stopReattaching()
+    const startedAt = Date.now()
+    this.reattachInterval = setInterval(() => {
+      // The primary window was closed rather than reloaded
+      if (window.opener?.closed) {
+        this.stopReattaching()
+        window.close()
+        return
+      }
+      if (Date.now() - startedAt > REATTACH_TIMEOUT) {
+        this.stopReattaching()
+        this.report(
+          EventCode.WINDOW_CLOSED,
+          'The primary window did not come back after reloading',
+        )
+        return
+      }
+      this.service?.sendMessage({ type: MessageType.WINDOW_RELOADED })
+    }, REATTACH_INTERVAL)
+  }
+
+  private stopReattaching(): void {
+    if (this.reattachInterval !== null) {
+      clearInterval(this.reattachInterval)
+      this.reattachInterval = null
+    }
+  }
+
+  private stopAnnouncing(): void {
+    if (this.announceInterval !== null) {
+      clearInterval(this.announceInterval)
+      this.announceInterval = null
+    }
+  }
+
+  // Signal to the primary that this window is ready to receive connections,
+  // until it answers
+  private signalReady = (): void => {
+    if (!this.service) {
+      this.report(EventCode.SETUP_FAILED, 'No connection to the primary window')
+      return
+    }
+    // Check if this is a page reload using sessionStorage
+    const type =
+      sessionStorage.getItem('wasLoaded') === 'true'
+        ? MessageType.WINDOW_RELOADED
+        : MessageType.WINDOW_READY
+    sessionStorage.setItem('wasLoaded', 'true')
+    this.service.sendMessage({ type })
+    this.announceInterval = setInterval(
+      () => this.service?.sendMessage({ type }),
+      ANNOUNCE_INTERVAL,
+    )
+    this.report(
+      EventCode.WINDOW_STATE,
+      'Ready signal sent, waiting for video...',
+    )
+  }
+
+  // Notify the primary we're reloading, not closing
+  private handleBeforeUnload = (): void => {
+    this.service?.sendMessage({ type: MessageType.WINDOW_RELOADING })
+  }
+
+  private handleStatus = (event: LogEvent | null): void => {
+    if (!event) {
+      return
+    }
+    this.reportEvent(event)
+    // The primary window found this one, or found it again after reloading:
+    // it need not announce itself anymore even though the media is not
+    // flowing yet, another announcement would restart the negotiation
+    if (event.code === EventCode.ANSWER_SENT) {
+      this.stopAnnouncing()
+      this.stopReattaching()
+    }
+  }
+
+  private handleMessage = (message: ControlMessage): void => {
+    switch (message.type) {
+      case MessageType.PLAY:
+        this.applyPaused(false)
+        break
+      case MessageType.PAUSE:
+        this.applyPaused(true)
+        break
+      case MessageType.PLAYBACK_STATE:
+        this.syncPlaybackState(message.state)
+        break
+      case MessageType.CAPTIONS:
+        this.emit('captions', { cues: message.cues })
+        break
+      case MessageType.AUDIO_ROUTING:
+        this.emit('audioRouting', { routing: message.routing })
+        break
+      case MessageType.ANNOTATIONS:
+        this.emit('annotations', { message, windowId: null })
+        break
+      case MessageType.WINDOW_RELOADING:
+        // The last frame stays on screen until the video is back
+        this.report(
+          EventCode.WINDOW_STATE,
+          'The primary window is reloading, waiting for it to reconnect...',
+        )
+        this.startReattaching()
+        break
+      case MessageType.WINDOW_CLOSED:
+        this.stopReattaching()
+        this.report(
+          EventCode.WINDOW_CLOSED,
+          'The primary window closed the connection',
+        )
+        break
+    }
+  }
+
+  // Follow the playback state of the primary window
+  private syncPlaybackState(state: PlaybackState): void {
+    this.emit('playbackState', { state })
+    const video = this.getVideo()
+    // Correct a pause state that drifted, e.g. after a missed message
+    if (video && state.paused !== video.paused) {
+      this.applyPaused(state.paused)
+    }
+  }
+}
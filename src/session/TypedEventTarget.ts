@@ -0,0 +1,24 @@
+/**
+ * An `EventTarget` whose events carry a typed `detail`, e.g.
+ * `session.on('status', ({ event }) => ...)`. Plain `addEventListener` works
+ * too and receives `CustomEvent`s.
+ */
+export class TypedEventTarget<Events extends object> extends EventTarget {
+  /** Listen for one type of event, returns a function to stop listening */
+  public on<Type extends keyof Events & string>(
+    type: Type,
+    listener: (detail: Events[Type]) => void,
+  ): () => void {
+    const handleEvent = (event: Event) =>
+      listener((event as CustomEvent<Events[Type]>).detail)
+    this.addEventListener(type, handleEvent)
+    return () => this.removeEventListener(type, handleEvent)
+  }
+
+  protected emit<Type extends keyof Events & string>(
+    type: Type,
+    detail: Events[Type],
+  ): void {
+    this.dispatchEvent(new CustomEvent(type, { detail }))
+  }
+}
@@ -0,0 +1,30 @@
+export {
+  CONNECT_TIMEOUT,
+  ConnectionTimeoutError,
+  DualScreenSession,
+  SessionClosedError,
+} from './DualScreenSession'
+export type {
+  ConnectionSettings,
+  DualScreenSessionEvents,
+  SessionStatus,
+} from './DualScreenSession'
+export {
+  DEFAULT_SECONDARY_ROUTE,
+  PrimaryScreenSession,
+  WindowBlockedError,
+} from './PrimaryScreenSession'
+export type {
+  PrimarySessionEvents,
+  PrimarySessionOptions,
+  SecondaryRoute,
+  SecondaryWindowInfo,
+} from './PrimaryScreenSession'
+export { watchPageUnload } from './pageUnload'
+export type { PageUnloadHandlers } from './pageUnload'
+export { SecondaryScreenSession } from './SecondaryScreenSession'
+export type {
+  SecondarySessionEvents,
+  SecondarySessionOptions,
+} from './SecondaryScreenSession'
+export { TypedEventTarget } from './TypedEventTarget'
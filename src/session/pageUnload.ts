@@ -0,0 +1,65 @@
+// Navigation API, not in the DOM typings yet
+interface NavigateEvent extends Event {
+  readonly navigationType: 'push' | 'replace' | 'reload' | 'traverse'
+}
+
+declare global {
+  interface Window {
+    navigation?: EventTarget
+  }
+}
+
+export interface PageUnloadHandlers {
+  /** Whether to ask before leaving the page, never asked for a known reload */
+  shouldConfirm: () => boolean
+  /** The page unloads, `isReload` when it is known to be loaded again */
+  onUnload: (isReload: boolean) => void
+}
+
+const isReloadShortcut = (event: KeyboardEvent) =>
+  event.key === 'F5' ||
+  ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'r')
+
+/**
+ * Tell a reload of the page from leaving it for good. Browsers do not say
+ * which one an unload is: a reload is only known when it comes from the
+ * keyboard shortcuts or the page itself, the reload button of the browser
+ * counts as leaving. Returns a function to stop listening.
+ */
+export const watchPageUnload = ({
+  shouldConfirm,
+  onUnload,
+}: PageUnloadHandlers): (() => void) => {
+  let isReload = false
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (isReloadShortcut(event)) {
+      isReload = true
+    }
+  }
+  const handleNavigate = (event: Event) => {
+    isReload = (event as NavigateEvent).navigationType === 'reload'
+  }
+  const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+    if (!isReload && shouldConfirm()) {
+      event.preventDefault()
+      event.returnValue = true
+    }
+  }
+  // A page kept in the back/forward cache is not reloaded either
+  const handlePageHide = (event: PageTransitionEvent) => {
+    onUnload(isReload && !event.persisted)
+    isReload = false
+  }
+
+  window.addEventListener('keydown', handleKeyDown)
+  window.navigation?.addEventListener('navigate', handleNavigate)
+  window.addEventListener('beforeunload', handleBeforeUnload)
+  window.addEventListener('pagehide', handlePageHide)
+  return () => {
+    window.removeEventListener('keydown', handleKeyDown)
+    window.navigation?.removeEventListener('navigate', handleNavigate)
+    window.removeEventListener('beforeunload', handleBeforeUnload)
+    window.removeEventListener('pagehide', handlePageHide)
+  }
+}
@@ -0,0 +1 @@
+export { useDualScreenSession } from './useDualScreenSession'
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react'
+
+import type { LogEvent } from '../../event-log'
+
+import type {
+  DualScreenSession,
+  DualScreenSessionEvents,
+} from '../DualScreenSession'
+
+/**
+ * Run a session while the component is mounted, logging its events and
+ * following whether its video is paused
+ */
+export function useDualScreenSession<Events extends DualScreenSessionEvents>(
+  session: DualScreenSession<Events>,
+  reportEvent: (event: LogEvent, context?: string) => void,
+) {
+  const [isPaused, setIsPaused] = useState(() => session.isPaused())
+
+  useEffect(() => {
+    const unsubscribes = [
+      session.on('status', ({ event, context }) => reportEvent(event, context)),
+      session.on('pausedChange', ({ paused }) => setIsPaused(paused)),
+    ]
+    session.start()
+    return () => {
+      session.stop()
+      for (const unsubscribe of unsubscribes) {
+        unsubscribe()
+      }
+    }
+  }, [reportEvent, session])
+
+  return { isPaused }
+}
@@ -0,0 +1,84 @@
+/** A secondary window or tab to reattach to after the primary reloaded */
+export interface StoredSession {
+  id: string
+  label: string
+  pairingToken: string
+  /** Opened by the primary, as opposed to a tab found on the broadcast channel */
+  isWindow: boolean
+}
+
+export interface StoredSessions {
+  sessions: StoredSession[]
+  /** Number of windows opened so far, for the labels of the next ones */
+  windowCount: number
+}
+
+// Session storage: the state belongs to this tab and ends with it
+const SESSIONS_STORAGE_KEY = 'video-share-movie:secondary-sessions'
+const PEER_ID_STORAGE_KEY = 'video-share-movie:primary-peer-id'
+const PAIRING_TOKEN_STORAGE_KEY = 'video-share-movie:primary-pairing-token'
+
+const isStoredSession = (value: unknown): value is StoredSession => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const session = value as Record<string, unknown>
+  return (
+    typeof session.id === 'string' &&
+    typeof session.label === 'string' &&
+    typeof session.pairingToken === 'string' &&
+    typeof session.isWindow === 'boolean'
+  )
+}
+
+// Read the sessions left by the page before a reload, once: a later reload
+// without secondary windows must not find them again
+export const takeStoredSessions = (): StoredSessions => {
+  try {
+    const stored = JSON.parse(
+      sessionStorage.getItem(SESSIONS_STORAGE_KEY) ?? 'null',
+    )
+    sessionStorage.removeItem(SESSIONS_STORAGE_KEY)
+    return {
+      sessions: Array.isArray(stored?.sessions)
+        ? stored.sessions.filter(isStoredSession)
+        : [],
+      windowCount:
+        typeof stored?.windowCount === 'number' ? stored.windowCount : 0,
+    }
+  } catch {
+    return { sessions: [], windowCount: 0 }
+  }
+}
+
+export const saveSessions = (stored: StoredSessions): void => {
+  try {
+    sessionStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(stored))
+  } catch {
+    // Storage is full or disabled, the secondary windows won't be reattached
+  }
+}
+
+// A value kept for the lifetime of the tab, created on first use
+const loadOrCreate = (key: string, create: () => string): string => {
+  try {
+    const stored = sessionStorage.getItem(key)
+    if (stored) {
+      return stored
+    }
+    const value = create()
+    sessionStorage.setItem(key, value)
+    return value
+  } catch {
+    return create()
+  }
+}
+
+// Id on the broadcast channel, kept so paired tabs recognize the reloaded
+// primary
+export const loadPeerId = (): string =>
+  loadOrCreate(PEER_ID_STORAGE_KEY, () => crypto.randomUUID())
+
+// Token of the pairing link, kept so the link stays valid across reloads
+export const loadBroadcastPairingToken = (create: () => string): string =>
+  loadOrCreate(PAIRING_TOKEN_STORAGE_KEY, create)
@@ -0,0 +1,40 @@
+interface SparklineProps {
+  values: (number | null)[]
+  width?: number
+  height?: number
+}
+
+// Small line chart of recent values, gaps where a value is missing
+export function Sparkline({
+  values,
+  width = 120,
+  height = 24,
+}: SparklineProps) {
+  const known = values.filter((value): value is number => value !== null)
+  if (known.length < 2) {
+    return <svg className="sparkline" width={width} height={height} />
+  }
+  const min = Math.min(...known)
+  const max = Math.max(...known)
+  const range = max - min || 1
+  const step = width / Math.max(values.length - 1, 1)
+  const points = values
+    .map((value, index) =>
+      value === null
+        ? null
+        : `${(index * step).toFixed(1)},${(height - 1 - ((value - min) / range) * (height - 2)).toFixed(1)}`,
+    )
+    .filter((point) => point !== null)
+    .join(' ')
+  return (
+    <svg
+      className="sparkline"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      aria-hidden="true"
+    >
+      <polyline points={points} fill="none" stroke="currentColor" />
+    </svg>
+  )
+}
@@ -0,0 +1,139 @@
+import { useCallback, useState } from 'react'
+
+import { downloadBlob } from '../recording'
+import type { ConnectionStatsSample } from '../web-rtc'
+
+import { formatBitrate, formatNumber, formatResolution } from './formatStats'
+import { Sparkline } from './Sparkline'
+import { type SubscribeStats, useConnectionStats } from './useConnectionStats'
+
+interface Metric {
+  label: string
+  format: (sample: ConnectionStatsSample) => string
+  // Numeric series to draw as a sparkline
+  series?: (sample: ConnectionStatsSample) => number | null
+}
+
+const METRICS: Metric[] = [
+  {
+    label: 'Outbound bitrate',
+    format: (sample) => formatBitrate(sample.outboundBitrate),
+    series: (sample) => sample.outboundBitrate,
+  },
+  {
+    label: 'Inbound bitrate',
+    format: (sample) => formatBitrate(sample.inboundBitrate),
+    series: (sample) => sample.inboundBitrate,
+  },
+  {
+    label: 'Frames per second',
+    format: (sample) => formatNumber(sample.framesPerSecond),
+    series: (sample) => sample.framesPerSecond,
+  },
+  { label: 'Resolution', format: formatResolution },
+  {
+    label: 'Packet loss',
+    format: (sample) =>
+      sample.packetLoss === null
+        ? '–'
+        : `${sample.packetLoss.toFixed(2)} % (${sample.packetsLost} packets)`,
+    series: (sample) => sample.packetLoss,
+  },
+  {
+    label: 'Jitter',
+    format: (sample) => formatNumber(sample.jitter, ' ms', 1),
+    series: (sample) => sample.jitter,
+  },
+  {
+    label: 'Round-trip time',
+    format: (sample) => formatNumber(sample.roundTripTime, ' ms', 1),
+    series: (sample) => sample.roundTripTime,
+  },
+  {
+    label: 'Encode time',
+    format: (sample) => formatNumber(sample.encodeTime, ' ms', 1),
+    series: (sample) => sample.encodeTime,
+  },
+  {
+    label: 'Decode time',
+    format: (sample) => formatNumber(sample.decodeTime, ' ms', 1),
+    series: (sample) => sample.decodeTime,
+  },
+  {
+    label: 'Jitter buffer delay',
+    format: (sample) => formatNumber(sample.jitterBufferDelay, ' ms', 1),
+    series: (sample) => sample.jitterBufferDelay,
+  },
+  { label: 'Codec', format: (sample) => sample.codec ?? '–' },
+  { label: 'Candidate pair', format: (sample) => sample.candidatePair ?? '–' },
+]
+
+// Save the collected statistics as a JSON file to attach to bug reports
+const exportStats = (title: string, history: ConnectionStatsSample[]) => {
+  const data = {
+    title,
+    exportedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    samples: history,
+  }
+  downloadBlob(
+    new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }),
+    `webrtc-stats-${Date.now()}.json`,
+  )
+}
+
+interface StatsPanelProps {
+  subscribe: SubscribeStats
+  title?: string
+}
+
+/**
+ * Collapsible panel with live connection statistics, only collected while
+ * the panel is open
+ */
+export function StatsPanel({
+  subscribe,
+  title = 'Connection statistics',
+}: StatsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const { history, latest } = useConnectionStats(subscribe, isOpen)
+
+  const handleExport = useCallback(
+    () => exportStats(title, history),
+    [history, title],
+  )
+
+  return (
+    <details
+      className="stats-panel"
+      open={isOpen}
+      onToggle={(event) => setIsOpen(event.currentTarget.open)}
+    >
+      <summary>{title}</summary>
+      {latest ? (
+        <>
+          <table>
+            <tbody>
+              {METRICS.map((metric) => (
+                <tr key={metric.label}>
+                  <th scope="row">{metric.label}</th>
+                  <td>{metric.format(latest)}</td>
+                  <td>
+                    {metric.series && (
+                      <Sparkline values={history.map(metric.series)} />
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button type="button" onClick={handleExport}>
+            Export JSON
+          </button>
+        </>
+      ) : (
+        <p>Waiting for statistics...</p>
+      )}
+    </details>
+  )
+}
@@ -0,0 +1,20 @@
+import type { ConnectionStatsSample } from '../web-rtc'
+
+export const formatBitrate = (bitsPerSecond: number | null): string => {
+  if (bitsPerSecond === null) return '–'
+  if (bitsPerSecond >= 1_000_000) {
+    return `${(bitsPerSecond / 1_000_000).toFixed(2)} Mbit/s`
+  }
+  return `${Math.round(bitsPerSecond / 1000)} kbit/s`
+}
+
+export const formatNumber = (
+  value: number | null,
+  unit = '',
+  digits = 0,
+): string => (value === null ? '–' : `${value.toFixed(digits)}${unit}`)
+
+export const formatResolution = (sample: ConnectionStatsSample): string =>
+  sample.frameWidth !== null && sample.frameHeight !== null
+    ? `${sample.frameWidth}×${sample.frameHeight}`
+    : '–'
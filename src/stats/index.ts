@@ -0,0 +1,4 @@
+export { Sparkline } from './Sparkline'
+export { StatsPanel } from './StatsPanel'
+export { useConnectionStats } from './useConnectionStats'
+export type { SubscribeStats } from './useConnectionStats'
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react'
+
+import {
+  type ConnectionStatsSample,
+  STATS_HISTORY_LENGTH,
+  type StatsListener,
+} from '../web-rtc'
+
+export type SubscribeStats = (listener: StatsListener) => () => void
+
+// Recent connection statistics, collected while `enabled` is set
+export function useConnectionStats(subscribe: SubscribeStats, enabled = true) {
+  const [history, setHistory] = useState<ConnectionStatsSample[]>([])
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+    setHistory([])
+    return subscribe((sample) => {
+      setHistory((current) => [...current, sample].slice(-STATS_HISTORY_LENGTH))
+    })
+  }, [enabled, subscribe])
+
+  return { history, latest: history[history.length - 1] ?? null }
+}
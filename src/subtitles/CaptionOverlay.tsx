@@ -0,0 +1,27 @@
+import type { CaptionCue } from '../web-rtc'
+
+import type { CaptionSettings } from './captionSettings'
+
+interface CaptionOverlayProps {
+  cues: CaptionCue[]
+  settings: CaptionSettings
+}
+
+// Captions rendered over the received video, which carries no text tracks
+export function CaptionOverlay({ cues, settings }: CaptionOverlayProps) {
+  if (cues.length === 0) {
+    return null
+  }
+  return (
+    <div
+      className={`caption-overlay ${settings.position} ${settings.size}`}
+      aria-live="polite"
+    >
+      {cues.map((cue, index) => (
+        <span key={`${index}-${cue.text}`} className="caption-cue">
+          {cue.text}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import {
+  CaptionPosition,
+  type CaptionSettings,
+  CaptionSize,
+} from './captionSettings'
+
+interface CaptionSettingsPanelProps {
+  settings: CaptionSettings
+  onChange: (changes: Partial<CaptionSettings>) => void
+}
+
+export function CaptionSettingsPanel({
+  settings,
+  onChange,
+}: CaptionSettingsPanelProps) {
+  return (
+    <div className="caption-settings">
+      <label>
+        Caption size
+        <select
+          value={settings.size}
+          onChange={(event) =>
+            onChange({ size: event.target.value as CaptionSize })
+          }
+        >
+          <option value={CaptionSize.SMALL}>Small</option>
+          <option value={CaptionSize.MEDIUM}>Medium</option>
+          <option value={CaptionSize.LARGE}>Large</option>
+        </select>
+      </label>
+      <label>
+        Caption position
+        <select
+          value={settings.position}
+          onChange={(event) =>
+            onChange({ position: event.target.value as CaptionPosition })
+          }
+        >
+          <option value={CaptionPosition.BOTTOM}>Bottom</option>
+          <option value={CaptionPosition.TOP}>Top</option>
+        </select>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import type { SubtitleControls } from './useSubtitles'
+
+interface SubtitlePickerProps {
+  subtitles: SubtitleControls
+}
+
+export function SubtitlePicker({ subtitles }: SubtitlePickerProps) {
+  const { tracks, activeTrackId, selectTrack, addSubtitleFiles, error } =
+    subtitles
+
+  return (
+    <div className="subtitle-picker">
+      <label>
+        Subtitles
+        <select
+          value={activeTrackId ?? ''}
+          onChange={(event) => selectTrack(event.target.value || null)}
+        >
+          <option value="">Off</option>
+          {tracks.map((track) => (
+            <option key={track.id} value={track.id}>
+              {track.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Load WebVTT / SRT
+        <input
+          type="file"
+          accept=".vtt,.srt,text/vtt"
+          multiple
+          onChange={(event) => {
+            if (event.target.files) {
+              addSubtitleFiles([...event.target.files])
+            }
+            event.target.value = ''
+          }}
+        />
+      </label>
+      {error && <span className="subtitle-error">{error}</span>}
+    </div>
+  )
+}
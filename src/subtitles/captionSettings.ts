@@ -0,0 +1,66 @@
+import { useCallback, useState } from 'react'
+
+export const CaptionSize = {
+  SMALL: 'small',
+  MEDIUM: 'medium',
+  LARGE: 'large',
+} as const
+
+export type CaptionSize = (typeof CaptionSize)[keyof typeof CaptionSize]
+
+export const CaptionPosition = {
+  TOP: 'top',
+  BOTTOM: 'bottom',
+} as const
+
+export type CaptionPosition =
+  (typeof CaptionPosition)[keyof typeof CaptionPosition]
+
+export interface CaptionSettings {
+  size: CaptionSize
+  position: CaptionPosition
+}
+
+const STORAGE_KEY = 'video-share-movie:caption-settings'
+
+const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  size: CaptionSize.MEDIUM,
+  position: CaptionPosition.BOTTOM,
+}
+
+const loadCaptionSettings = (): CaptionSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+    return {
+      size: Object.values<string>(CaptionSize).includes(stored?.size)
+        ? stored.size
+        : DEFAULT_CAPTION_SETTINGS.size,
+      position: Object.values<string>(CaptionPosition).includes(
+        stored?.position,
+      )
+        ? stored.position
+        : DEFAULT_CAPTION_SETTINGS.position,
+    }
+  } catch {
+    return DEFAULT_CAPTION_SETTINGS
+  }
+}
+
+// Caption display settings of this window, remembered across reloads
+export function useCaptionSettings() {
+  const [settings, setSettings] = useState(loadCaptionSettings)
+
+  const updateSettings = useCallback((changes: Partial<CaptionSettings>) => {
+    setSettings((current) => {
+      const updated = { ...current, ...changes }
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+      } catch {
+        // Storage is full or disabled, the settings just won't be remembered
+      }
+      return updated
+    })
+  }, [])
+
+  return { settings, updateSettings }
+}
@@ -0,0 +1,12 @@
+export { CaptionOverlay } from './CaptionOverlay'
+export { CaptionSettingsPanel } from './CaptionSettingsPanel'
+export {
+  CaptionPosition,
+  CaptionSize,
+  useCaptionSettings,
+} from './captionSettings'
+export type { CaptionSettings } from './captionSettings'
+export { SubtitlePicker } from './SubtitlePicker'
+export { cueText, readSubtitleFile, srtToVtt } from './subtitleFormats'
+export { useSubtitles } from './useSubtitles'
+export type { SubtitleControls, SubtitleTrack } from './useSubtitles'
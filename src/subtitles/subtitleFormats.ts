@@ -0,0 +1,41 @@
+// SRT timestamps use a comma before the milliseconds, WebVTT a dot
+const SRT_TIMESTAMP = /(\d{1,2}:\d{2}:\d{2}),(\d{3})/g
+
+// Convert SubRip (SRT) subtitles to WebVTT
+export const srtToVtt = (srt: string): string => {
+  const body = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .split(/\n{2,}/)
+    .map((block) => {
+      const lines = block.split('\n')
+      // Drop the cue number, WebVTT finds the cue by its timing line
+      if (/^\d+$/.test(lines[0]) && lines[1]?.includes('-->')) {
+        lines.shift()
+      }
+      lines[0] = lines[0].replace(SRT_TIMESTAMP, '$1.$2')
+      return lines.join('\n')
+    })
+    .join('\n\n')
+  return `WEBVTT\n\n${body}\n`
+}
+
+export const isVtt = (text: string): boolean =>
+  text.replace(/^\uFEFF/, '').startsWith('WEBVTT')
+
+// Read a WebVTT or SRT file and return it as WebVTT
+export const readSubtitleFile = async (file: File): Promise<string> => {
+  const text = await file.text()
+  if (isVtt(text)) {
+    return text
+  }
+  if (file.name.toLowerCase().endsWith('.srt') || text.includes('-->')) {
+    return srtToVtt(text)
+  }
+  throw new Error(`"${file.name}" is not a WebVTT or SRT file`)
+}
+
+// Text of a cue without WebVTT markup such as <i> or <v Speaker>
+export const cueText = (cue: TextTrackCue): string =>
+  cue instanceof VTTCue ? cue.text.replace(/<[^>]*>/g, '') : ''
@@ -0,0 +1,114 @@
+import { type RefObject, useCallback, useEffect, useRef, useState } from 'react'
+
+import type { CaptionCue } from '../web-rtc'
+
+import { cueText, readSubtitleFile } from './subtitleFormats'
+
+export interface SubtitleTrack {
+  id: string
+  label: string
+  // Object URL of the WebVTT data
+  src: string
+}
+
+/**
+ * Subtitle tracks loaded on a video element, rendered as <track> elements with
+ * a `data-subtitle-id` attribute. Reports the active cues of the selected
+ * track whenever they change.
+ */
+export function useSubtitles(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  onCuesChange: (cues: CaptionCue[]) => void,
+) {
+  const [tracks, setTracks] = useState<SubtitleTrack[]>([])
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const tracksRef = useRef(tracks)
+  tracksRef.current = tracks
+
+  // Load WebVTT or SRT files and select the first one
+  const addSubtitleFiles = useCallback(async (files: Iterable<File>) => {
+    setError(null)
+    const added: SubtitleTrack[] = []
+    for (const file of files) {
+      try {
+        const vtt = await readSubtitleFile(file)
+        added.push({
+          id: crypto.randomUUID(),
+          label: file.name.replace(/\.(srt|vtt)$/i, ''),
+          src: URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' })),
+        })
+      } catch (error) {
+        setError(error instanceof Error ? error.message : String(error))
+      }
+    }
+    if (added.length > 0) {
+      setTracks((current) => [...current, ...added])
+      setActiveTrackId(added[0].id)
+    }
+  }, [])
+
+  const removeTrack = useCallback((id: string) => {
+    setTracks((current) => {
+      const track = current.find((track) => track.id === id)
+      if (track) {
+        URL.revokeObjectURL(track.src)
+      }
+      return current.filter((track) => track.id !== id)
+    })
+    setActiveTrackId((current) => (current === id ? null : current))
+  }, [])
+
+  // Show the selected track and follow its cues
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video) {
+      return
+    }
+    let activeTrack: TextTrack | null = null
+    for (const element of video.querySelectorAll('track')) {
+      const isActive = element.dataset.subtitleId === activeTrackId
+      element.track.mode = isActive ? 'showing' : 'disabled'
+      if (isActive) {
+        activeTrack = element.track
+      }
+    }
+    if (!activeTrack) {
+      onCuesChange([])
+      return
+    }
+    const track = activeTrack
+    const handleCueChange = () => {
+      onCuesChange(
+        [...(track.activeCues ?? [])]
+          .map((cue) => ({ text: cueText(cue) }))
+          .filter((cue) => cue.text),
+      )
+    }
+    handleCueChange()
+    track.addEventListener('cuechange', handleCueChange)
+    return () => {
+      track.removeEventListener('cuechange', handleCueChange)
+    }
+  }, [activeTrackId, onCuesChange, tracks, videoRef])
+
+  // Release the object URLs of the tracks
+  useEffect(() => {
+    return () => {
+      for (const track of tracksRef.current) {
+        URL.revokeObjectURL(track.src)
+      }
+    }
+  }, [])
+
+  return {
+    tracks,
+    activeTrackId,
+    selectTrack: setActiveTrackId,
+    addSubtitleFiles,
+    removeTrack,
+    error,
+  }
+}
+
+export type SubtitleControls = ReturnType<typeof useSubtitles>
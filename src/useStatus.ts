@@ -1,5 +1,13 @@
 import { useCallback, useState } from 'react'
 
+import {
+  type EventCode,
+  EventSeverity,
+  type LogEvent,
+  createLogEvent,
+  eventLog,
+} from './event-log'
+
 export interface Status {
   message: string
   isError?: boolean
@@ -11,17 +19,24 @@ export function useStatus() {
     isError: false,
   })
 
-  const updateStatus = useCallback((message: string, isError = false) => {
-    setStatus({ message, isError })
-    if (!message) {
-      return
-    }
-    if (isError) {
-      console.error(message)
-    } else {
-      console.log(message)
-    }
+  // Log an event and show it as the current status
+  const reportEvent = useCallback((event: LogEvent, context?: string) => {
+    const { severity } = eventLog.add(event, context)
+    setStatus({
+      message: context ? `${context}: ${event.message}` : event.message,
+      isError: severity !== EventSeverity.INFO,
+    })
+  }, [])
+
+  const report = useCallback(
+    (code: EventCode, message: string, error?: unknown) =>
+      reportEvent(createLogEvent(code, message, error)),
+    [reportEvent],
+  )
+
+  const clearStatus = useCallback(() => {
+    setStatus({ message: '' })
   }, [])
 
-  return { status, updateStatus }
+  return { status, report, reportEvent, clearStatus }
 }
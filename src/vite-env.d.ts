@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** `hostOnly` or `servers`, see src/web-rtc/iceConfig.ts */
+  readonly VITE_ICE_MODE?: string
+  /** JSON list of STUN and TURN servers */
+  readonly VITE_ICE_SERVERS?: string
+  /** `all` or `relay` */
+  readonly VITE_ICE_TRANSPORT_POLICY?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
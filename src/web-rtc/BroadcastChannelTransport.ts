@@ -0,0 +1,138 @@
+import type {
+  SignalingListener,
+  SignalingTransport,
+} from './SignalingTransport'
+
+export const DEFAULT_BROADCAST_CHANNEL_NAME = 'video-share-movie'
+
+/** Envelope used on the channel, so several peers can share it */
+interface BroadcastEnvelope {
+  from: string
+  to?: string
+  data: unknown
+}
+
+const isBroadcastEnvelope = (value: unknown): value is BroadcastEnvelope =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as BroadcastEnvelope).from === 'string' &&
+  ((value as BroadcastEnvelope).to === undefined ||
+    typeof (value as BroadcastEnvelope).to === 'string')
+
+export interface BroadcastChannelTransportOptions {
+  /** Id of this peer on the channel */
+  localId: string
+  /**
+   * Id of the remote peer. When omitted, messages are broadcast until a peer
+   * addresses this one directly, which then becomes the remote peer.
+   */
+  remoteId?: string
+  channelName?: string
+}
+
+/**
+ * Transport over a same-origin BroadcastChannel. Unlike the postMessage
+ * transport it needs no window reference, so any tab can reach the other one.
+ */
+export class BroadcastChannelTransport implements SignalingTransport {
+  private channel: BroadcastChannel
+  private localId: string
+  private remoteId: string | null
+  private listeners = new Set<SignalingListener>()
+
+  constructor({
+    localId,
+    remoteId,
+    channelName = DEFAULT_BROADCAST_CHANNEL_NAME,
+  }: BroadcastChannelTransportOptions) {
+    this.localId = localId
+    this.remoteId = remoteId ?? null
+    this.channel = new BroadcastChannel(channelName)
+    this.channel.addEventListener('message', this.handleChannelMessage)
+  }
+
+  public send(data: unknown): void {
+    const envelope: BroadcastEnvelope = { from: this.localId, data }
+    if (this.remoteId) {
+      envelope.to = this.remoteId
+    }
+    this.channel.postMessage(envelope)
+  }
+
+  public subscribe(listener: SignalingListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  public isOpen(): boolean {
+    // A BroadcastChannel cannot tell whether the other tab is still there
+    return true
+  }
+
+  public close(): void {
+    this.channel.removeEventListener('message', this.handleChannelMessage)
+    this.channel.close()
+    this.listeners.clear()
+  }
+
+  public getRemoteId(): string | null {
+    return this.remoteId
+  }
+
+  private handleChannelMessage = (event: MessageEvent) => {
+    const envelope = event.data
+    if (!isBroadcastEnvelope(envelope) || envelope.from === this.localId) {
+      return
+    }
+    if (this.remoteId) {
+      // Only accept messages from our peer that are meant for us or everybody
+      if (envelope.from !== this.remoteId) return
+      if (envelope.to && envelope.to !== this.localId) return
+    } else {
+      // Not paired yet: wait for a peer that talks to us directly
+      if (envelope.to !== this.localId) return
+      this.remoteId = envelope.from
+    }
+    for (const listener of this.listeners) {
+      listener(envelope.data)
+    }
+  }
+}
+
+export interface BroadcastPeerListenerOptions {
+  /**
+   * Id of the listening peer: messages addressed to it are received too, e.g.
+   * from a tab that was paired with it before a reload
+   */
+  localId?: string
+  channelName?: string
+}
+
+/**
+ * Listen on the channel for messages broadcast by peers that are not paired
+ * yet, e.g. a secondary tab announcing itself. Returns a function to stop.
+ */
+export const listenForBroadcastPeers = (
+  onPeerMessage: (peerId: string, data: unknown, isAddressed: boolean) => void,
+  {
+    localId,
+    channelName = DEFAULT_BROADCAST_CHANNEL_NAME,
+  }: BroadcastPeerListenerOptions = {},
+): (() => void) => {
+  const channel = new BroadcastChannel(channelName)
+  channel.addEventListener('message', (event: MessageEvent) => {
+    const envelope = event.data
+    if (
+      isBroadcastEnvelope(envelope) &&
+      (envelope.to === undefined ||
+        (localId !== undefined && envelope.to === localId))
+    ) {
+      onPeerMessage(envelope.from, envelope.data, envelope.to !== undefined)
+    }
+  })
+  return () => {
+    channel.close()
+  }
+}
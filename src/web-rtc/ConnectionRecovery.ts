@@ -0,0 +1,168 @@
+export const RecoveryState = {
+  IDLE: 'idle',
+  /** Waiting for the backoff delay before the next attempt */
+  WAITING: 'waiting',
+  RESTARTING_ICE: 'restartingIce',
+  RENEGOTIATING: 'renegotiating',
+  /** All attempts failed */
+  GAVE_UP: 'gaveUp',
+} as const
+
+export type RecoveryState = (typeof RecoveryState)[keyof typeof RecoveryState]
+
+export interface RecoveryProgress {
+  state: RecoveryState
+  /** Current attempt, 0 when connected */
+  attempt: number
+  maxAttempts: number
+}
+
+export interface ReconnectOptions {
+  maxAttempts: number
+  /** Milliseconds before the first attempt, doubled for each further one */
+  initialDelay: number
+  maxDelay: number
+  /** Milliseconds an attempt may take before the next one is started */
+  attemptTimeout: number
+  /** Milliseconds a connection may stay "disconnected" before recovering */
+  disconnectGracePeriod: number
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 16000,
+  attemptTimeout: 10000,
+  disconnectGracePeriod: 2000,
+}
+
+export interface RecoveryHandlers {
+  /** Restart ICE on the current peer connection */
+  restartIce: () => Promise<void>
+  /** Set up a new peer connection */
+  renegotiate: () => Promise<void>
+  onProgress: (progress: RecoveryProgress) => void
+}
+
+/**
+ * Recovers a lost peer connection: an ICE restart first, then full
+ * renegotiations, with exponential backoff between attempts until the
+ * connection is back or the attempts are used up.
+ */
+export class ConnectionRecovery {
+  private options: ReconnectOptions
+  private handlers: RecoveryHandlers
+  private state: RecoveryState = RecoveryState.IDLE
+  private attempt = 0
+  private timer: number | null = null
+
+  constructor(handlers: RecoveryHandlers, options: Partial<ReconnectOptions>) {
+    this.handlers = handlers
+    this.options = { ...DEFAULT_RECONNECT_OPTIONS, ...options }
+  }
+
+  /** Feed the peer connection's state changes */
+  public handleConnectionState(connectionState: RTCPeerConnectionState): void {
+    switch (connectionState) {
+      case 'connected':
+        this.clearTimer()
+        if (this.state !== RecoveryState.IDLE) {
+          this.state = RecoveryState.IDLE
+          this.attempt = 0
+          this.reportProgress()
+        }
+        break
+      case 'disconnected':
+        // Often recovers by itself, e.g. after a network hiccup
+        if (this.state === RecoveryState.IDLE && this.timer === null) {
+          this.timer = setTimeout(
+            () => this.scheduleAttempt(),
+            this.options.disconnectGracePeriod,
+          )
+        }
+        break
+      case 'failed':
+        if (
+          this.state !== RecoveryState.WAITING &&
+          this.state !== RecoveryState.GAVE_UP
+        ) {
+          this.scheduleAttempt()
+        }
+        break
+    }
+  }
+
+  public getProgress(): RecoveryProgress {
+    return {
+      state: this.state,
+      attempt: this.attempt,
+      maxAttempts: this.options.maxAttempts,
+    }
+  }
+
+  /** Stop recovering and forget the attempts made */
+  public reset(): void {
+    this.clearTimer()
+    this.state = RecoveryState.IDLE
+    this.attempt = 0
+  }
+
+  private scheduleAttempt(): void {
+    this.clearTimer()
+    if (this.attempt >= this.options.maxAttempts) {
+      this.state = RecoveryState.GAVE_UP
+      this.reportProgress()
+      return
+    }
+    this.attempt += 1
+    this.state = RecoveryState.WAITING
+    this.reportProgress()
+    const delay = Math.min(
+      this.options.initialDelay * 2 ** (this.attempt - 1),
+      this.options.maxDelay,
+    )
+    this.timer = setTimeout(() => this.runAttempt(), delay)
+  }
+
+  private async runAttempt(): Promise<void> {
+    const attempt = this.attempt
+    this.state =
+      attempt === 1 ? RecoveryState.RESTARTING_ICE : RecoveryState.RENEGOTIATING
+    this.reportProgress()
+    this.timer = setTimeout(
+      () => this.scheduleAttempt(),
+      this.options.attemptTimeout,
+    )
+    try {
+      if (attempt === 1) {
+        await this.handlers.restartIce()
+      } else {
+        await this.handlers.renegotiate()
+      }
+    } catch {
+      // Unless the connection came back or the attempt timed out meanwhile,
+      // try again
+      if (this.attempt === attempt && this.isAttempting()) {
+        this.scheduleAttempt()
+      }
+    }
+  }
+
+  private isAttempting(): boolean {
+    return (
+      this.state === RecoveryState.RESTARTING_ICE ||
+      this.state === RecoveryState.RENEGOTIATING
+    )
+  }
+
+  private reportProgress(): void {
+    this.handlers.onProgress(this.getProgress())
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
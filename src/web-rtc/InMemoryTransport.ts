@@ -0,0 +1,58 @@
+import type {
+  SignalingListener,
+  SignalingTransport,
+} from './SignalingTransport'
+
+/**
+ * Transport between two peers in the same page, e.g. for the self-test or to
+ * exercise the service without real windows. Like `postMessage`, messages
+ * are cloned and delivered asynchronously.
+ */
+export class InMemoryTransport implements SignalingTransport {
+  private peer: InMemoryTransport | null = null
+  private listeners = new Set<SignalingListener>()
+  private closed = false
+
+  /** Create two transports connected to each other */
+  public static createPair(): [InMemoryTransport, InMemoryTransport] {
+    const first = new InMemoryTransport()
+    const second = new InMemoryTransport()
+    first.peer = second
+    second.peer = first
+    return [first, second]
+  }
+
+  public send(data: unknown): void {
+    const peer = this.peer
+    if (!this.isOpen() || !peer) {
+      return
+    }
+    const copy = structuredClone(data)
+    setTimeout(() => peer.deliver(copy), 0)
+  }
+
+  public subscribe(listener: SignalingListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  public isOpen(): boolean {
+    return !this.closed && this.peer !== null && !this.peer.closed
+  }
+
+  public close(): void {
+    this.closed = true
+    this.listeners.clear()
+  }
+
+  private deliver(data: unknown): void {
+    if (this.closed) {
+      return
+    }
+    for (const listener of this.listeners) {
+      listener(data)
+    }
+  }
+}
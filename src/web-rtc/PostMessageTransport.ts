@@ -0,0 +1,77 @@
+import type {
+  RejectedMessageListener,
+  SignalingListener,
+  SignalingTransport,
+} from './SignalingTransport'
+
+/**
+ * Transport over `window.postMessage` to a window reference we hold, i.e. a
+ * window we opened or our `window.opener`. Messages only go to, and are only
+ * accepted from, the app's own origin.
+ */
+export class PostMessageTransport implements SignalingTransport {
+  private remoteWindow: Window
+  private origin: string
+  private listeners = new Set<SignalingListener>()
+  private rejectedListeners = new Set<RejectedMessageListener>()
+
+  constructor(remoteWindow: Window | null, origin = window.location.origin) {
+    if (!remoteWindow) {
+      throw new Error('Remote window is required for a postMessage transport.')
+    }
+    this.remoteWindow = remoteWindow
+    this.origin = origin
+    window.addEventListener('message', this.handleWindowMessage)
+  }
+
+  public send(data: unknown): void {
+    if (this.isOpen()) {
+      // Not delivered if the remote window navigated to another origin
+      this.remoteWindow.postMessage(data, this.origin)
+    }
+  }
+
+  public subscribe(listener: SignalingListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  public isOpen(): boolean {
+    return !this.remoteWindow.closed
+  }
+
+  public subscribeRejected(listener: RejectedMessageListener): () => void {
+    this.rejectedListeners.add(listener)
+    return () => {
+      this.rejectedListeners.delete(listener)
+    }
+  }
+
+  public close(): void {
+    window.removeEventListener('message', this.handleWindowMessage)
+    this.listeners.clear()
+    this.rejectedListeners.clear()
+  }
+
+  public getRemoteWindow(): Window {
+    return this.remoteWindow
+  }
+
+  private handleWindowMessage = (event: MessageEvent) => {
+    // Only process messages from the remote window
+    if (event.source !== this.remoteWindow) {
+      return
+    }
+    if (event.origin !== this.origin) {
+      for (const listener of this.rejectedListeners) {
+        listener(`message from the foreign origin ${event.origin}`)
+      }
+      return
+    }
+    for (const listener of this.listeners) {
+      listener(event.data)
+    }
+  }
+}
@@ -0,0 +1,24 @@
+export type SignalingListener = (data: unknown) => void
+
+/** Receives why the transport dropped an incoming message */
+export type RejectedMessageListener = (reason: string) => void
+
+/**
+ * Carries signaling and control messages between the two peers before (and
+ * besides) the WebRTC connection itself.
+ */
+export interface SignalingTransport {
+  /** Send a message to the remote peer */
+  send(data: unknown): void
+  /** Listen for messages from the remote peer, returns an unsubscribe function */
+  subscribe(listener: SignalingListener): () => void
+  /** Whether the remote peer can still be reached */
+  isOpen(): boolean
+  /** Release the resources held by the transport */
+  close(): void
+  /**
+   * Listen for messages the transport dropped, e.g. from a foreign origin.
+   * Returns an unsubscribe function.
+   */
+  subscribeRejected?(listener: RejectedMessageListener): () => void
+}
@@ -0,0 +1,267 @@
+/** Connection metrics derived from one `getStats()` poll */
+export interface ConnectionStatsSample {
+  timestamp: number
+  /** Bits per second sent, audio and video together */
+  outboundBitrate: number | null
+  /** Bits per second received, audio and video together */
+  inboundBitrate: number | null
+  framesPerSecond: number | null
+  frameWidth: number | null
+  frameHeight: number | null
+  packetsLost: number | null
+  /** Percentage of the video packets lost so far */
+  packetLoss: number | null
+  /** Milliseconds */
+  jitter: number | null
+  /** Milliseconds */
+  roundTripTime: number | null
+  codec: string | null
+  /** Candidate types of the selected pair, e.g. "host → host" */
+  candidatePair: string | null
+  /** Milliseconds per frame spent encoding, on the sender */
+  encodeTime: number | null
+  /** Milliseconds per frame spent decoding, on the receiver */
+  decodeTime: number | null
+  /** Milliseconds per frame spent in the jitter buffer, on the receiver */
+  jitterBufferDelay: number | null
+}
+
+export type StatsListener = (sample: ConnectionStatsSample) => void
+
+export const DEFAULT_STATS_INTERVAL = 1000
+export const STATS_HISTORY_LENGTH = 60
+
+// Stats entries are loosely typed dictionaries
+type StatsEntry = Record<string, unknown> & { type: string; id: string }
+
+const numberOrNull = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+
+// Cumulative video counters, per-frame delays are computed between polls
+interface VideoCounters {
+  totalEncodeTime: number | null
+  framesEncoded: number | null
+  totalDecodeTime: number | null
+  framesDecoded: number | null
+  jitterBufferDelay: number | null
+  jitterBufferEmittedCount: number | null
+}
+
+// Milliseconds per frame of a time counter in seconds, over the last interval
+const perFrame = (
+  total: number | null,
+  frames: number | null,
+  previousTotal: number | null | undefined,
+  previousFrames: number | null | undefined,
+): number | null => {
+  if (total === null || frames === null) {
+    return null
+  }
+  const deltaFrames = frames - (previousFrames ?? 0)
+  return deltaFrames > 0
+    ? ((total - (previousTotal ?? 0)) / deltaFrames) * 1000
+    : null
+}
+
+const sumOrNull = (values: (number | null)[]): number | null =>
+  values.some((value) => value !== null)
+    ? values.reduce<number>((sum, value) => sum + (value ?? 0), 0)
+    : null
+
+/**
+ * Polls `RTCPeerConnection.getStats()` while somebody listens and turns the
+ * raw reports into connection metrics, keeping a short history.
+ */
+export class StatsCollector {
+  private getPeerConnection: () => RTCPeerConnection | null
+  private interval: number
+  private timer: number | null = null
+  private listeners = new Set<StatsListener>()
+  private history: ConnectionStatsSample[] = []
+  // Byte counters of the previous poll, to compute bitrates
+  private previousBytes: {
+    timestamp: number
+    sent: number
+    received: number
+  } | null = null
+  private previousVideo: VideoCounters | null = null
+
+  constructor(
+    getPeerConnection: () => RTCPeerConnection | null,
+    interval = DEFAULT_STATS_INTERVAL,
+  ) {
+    this.getPeerConnection = getPeerConnection
+    this.interval = interval
+  }
+
+  /**
+   * Listen for new samples, polling starts with the first listener and stops
+   * with the last one. Returns a function to stop listening.
+   */
+  public subscribe(listener: StatsListener): () => void {
+    this.listeners.add(listener)
+    if (this.timer === null) {
+      this.timer = setInterval(() => this.poll(), this.interval)
+    }
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) {
+        this.stop()
+      }
+    }
+  }
+
+  public getHistory(): ConnectionStatsSample[] {
+    return [...this.history]
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    this.previousBytes = null
+    this.previousVideo = null
+  }
+
+  /** Forget the history, e.g. when the peer connection is replaced */
+  public reset(): void {
+    this.history = []
+    this.previousBytes = null
+    this.previousVideo = null
+  }
+
+  private async poll(): Promise<void> {
+    const peerConnection = this.getPeerConnection()
+    if (!peerConnection || peerConnection.connectionState === 'closed') {
+      return
+    }
+    let report: RTCStatsReport
+    try {
+      report = await peerConnection.getStats()
+    } catch {
+      // The connection was closed while polling
+      return
+    }
+    const sample = this.createSample(report)
+    this.history = [...this.history, sample].slice(-STATS_HISTORY_LENGTH)
+    for (const listener of this.listeners) {
+      listener(sample)
+    }
+  }
+
+  private createSample(report: RTCStatsReport): ConnectionStatsSample {
+    const entries = [...report.values()] as StatsEntry[]
+    const byType = (type: string) =>
+      entries.filter((entry) => entry.type === type)
+    const byId = (id: unknown) =>
+      typeof id === 'string'
+        ? (report.get(id) as StatsEntry | undefined)
+        : undefined
+
+    const outbound = byType('outbound-rtp')
+    const inbound = byType('inbound-rtp')
+    const video =
+      inbound.find((entry) => entry.kind === 'video') ??
+      outbound.find((entry) => entry.kind === 'video')
+    const remoteInbound = byType('remote-inbound-rtp').find(
+      (entry) => entry.kind === 'video',
+    )
+
+    const timestamp = Date.now()
+    const sent = sumOrNull(
+      outbound.map((entry) => numberOrNull(entry.bytesSent)),
+    )
+    const received = sumOrNull(
+      inbound.map((entry) => numberOrNull(entry.bytesReceived)),
+    )
+    const bitrate = (bytes: number | null, previous: number | undefined) => {
+      if (bytes === null || previous === undefined || !this.previousBytes) {
+        return null
+      }
+      const seconds = (timestamp - this.previousBytes.timestamp) / 1000
+      return seconds > 0 ? ((bytes - previous) * 8) / seconds : null
+    }
+    const outboundBitrate = bitrate(sent, this.previousBytes?.sent)
+    const inboundBitrate = bitrate(received, this.previousBytes?.received)
+    this.previousBytes = { timestamp, sent: sent ?? 0, received: received ?? 0 }
+
+    // Loss and jitter are measured by the receiver, the sender learns them
+    // from the remote-inbound report
+    const lossSource = video?.type === 'inbound-rtp' ? video : remoteInbound
+    const packetsLost = numberOrNull(lossSource?.packetsLost)
+    const packetsReceived = numberOrNull(video?.packetsReceived)
+    const packetsSent = numberOrNull(video?.packetsSent)
+    const packetTotal =
+      video?.type === 'inbound-rtp'
+        ? packetsReceived !== null && packetsLost !== null
+          ? packetsReceived + packetsLost
+          : null
+        : packetsSent
+    const jitter = numberOrNull(lossSource?.jitter)
+
+    const transport = byType('transport')[0]
+    const candidatePair =
+      byId(transport?.selectedCandidatePairId) ??
+      byType('candidate-pair').find(
+        (entry) => entry.nominated && entry.state === 'succeeded',
+      )
+    const localCandidate = byId(candidatePair?.localCandidateId)
+    const remoteCandidate = byId(candidatePair?.remoteCandidateId)
+    const roundTripTime =
+      numberOrNull(candidatePair?.currentRoundTripTime) ??
+      numberOrNull(remoteInbound?.roundTripTime)
+
+    const codec = byId(video?.codecId)
+
+    const counters: VideoCounters = {
+      totalEncodeTime: numberOrNull(video?.totalEncodeTime),
+      framesEncoded: numberOrNull(video?.framesEncoded),
+      totalDecodeTime: numberOrNull(video?.totalDecodeTime),
+      framesDecoded: numberOrNull(video?.framesDecoded),
+      jitterBufferDelay: numberOrNull(video?.jitterBufferDelay),
+      jitterBufferEmittedCount: numberOrNull(video?.jitterBufferEmittedCount),
+    }
+    const previous = this.previousVideo
+    this.previousVideo = counters
+
+    return {
+      timestamp,
+      outboundBitrate,
+      inboundBitrate,
+      framesPerSecond: numberOrNull(video?.framesPerSecond),
+      frameWidth: numberOrNull(video?.frameWidth),
+      frameHeight: numberOrNull(video?.frameHeight),
+      packetsLost,
+      packetLoss:
+        packetsLost !== null && packetTotal
+          ? (packetsLost / packetTotal) * 100
+          : null,
+      jitter: jitter !== null ? jitter * 1000 : null,
+      roundTripTime: roundTripTime !== null ? roundTripTime * 1000 : null,
+      codec: typeof codec?.mimeType === 'string' ? codec.mimeType : null,
+      candidatePair:
+        localCandidate && remoteCandidate
+          ? `${localCandidate.candidateType} → ${remoteCandidate.candidateType}`
+          : null,
+      encodeTime: perFrame(
+        counters.totalEncodeTime,
+        counters.framesEncoded,
+        previous?.totalEncodeTime,
+        previous?.framesEncoded,
+      ),
+      decodeTime: perFrame(
+        counters.totalDecodeTime,
+        counters.framesDecoded,
+        previous?.totalDecodeTime,
+        previous?.framesDecoded,
+      ),
+      jitterBufferDelay: perFrame(
+        counters.jitterBufferDelay,
+        counters.jitterBufferEmittedCount,
+        previous?.jitterBufferDelay,
+        previous?.jitterBufferEmittedCount,
+      ),
+    }
+  }
+}
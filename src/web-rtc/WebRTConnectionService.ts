@@ -1,11 +1,48 @@
-import { captureVideoStream } from './captureVideoStream'
+import { EventCode, type LogEvent, createLogEvent } from '../event-log'
+import {
+  ConnectionRecovery,
+  type ReconnectOptions,
+  type RecoveryProgress,
+  RecoveryState,
+} from './ConnectionRecovery'
+import { captureVideoStreamWhenReady } from './captureVideoStream'
+import {
+  type IceConfig,
+  type ResolvedIceConfig,
+  resolveIceConfig,
+  toRTCConfiguration,
+} from './iceConfig'
+import {
+  type ChannelMessage,
+  type ControlMessage,
+  MessageType,
+  type IceCandidateMessage,
+  type ProtocolMessage,
+  type ReconnectingMessage,
+  type WebRTCOfferMessage,
+  parseMessage,
+  toWireMessage,
+} from './protocol'
+import {
+  DEFAULT_QUALITY_SETTINGS,
+  type QualitySettings,
+  applyQualityToParameters,
+  orderCodecs,
+} from './qualitySettings'
+import type { SignalingTransport } from './SignalingTransport'
+import { StatsCollector, type StatsListener } from './StatsCollector'
 
-export type WebRTConnectionStatusCallback = (
-  status: string,
-  isError?: boolean,
-) => void
+/** Receives the events of the connection, `null` when it is cleaned up */
+export type WebRTConnectionStatusCallback = (event: LogEvent | null) => void
 
-export type MessageCallback = (message: unknown) => void
+export type MessageCallback = (message: ControlMessage) => void
+
+export type ConnectionStateListener = (state: RTCPeerConnectionState) => void
+
+export type RecoveryListener = (progress: RecoveryProgress) => void
+
+// Label of the data channel carrying control messages between the peers
+export const CONTROL_CHANNEL_LABEL = 'control'
 
 export const PeerRole = {
   PRIMARY: 'PRIMARY',
@@ -14,247 +51,795 @@ export const PeerRole = {
 
 export type PeerRole = (typeof PeerRole)[keyof typeof PeerRole]
 
+// Remote ICE candidate received before it can be added
+interface PendingCandidate {
+  connectionId: string
+  candidate: RTCIceCandidateInit
+}
+
+export interface WebRTConnectionOptions {
+  /** How the primary recovers a lost connection */
+  reconnect?: Partial<ReconnectOptions>
+  /**
+   * Token shared by the two windows of the session, sent with every message.
+   * Messages without it are dropped.
+   */
+  pairingToken?: string
+  /**
+   * STUN and TURN servers to use, by default taken from the URL or the
+   * environment, see `resolveIceConfig`
+   */
+  iceConfig?: IceConfig
+}
+
 export class WebRTConnectionService {
   private role: PeerRole
   private peerConnection: RTCPeerConnection | null = null
-  private remoteWindow: Window
+  // Id of the current peer connection, shared by both peers
+  private connectionId: string | null = null
+  // Set up on the primary, which drives reconnection
+  private recovery: ConnectionRecovery | null = null
+  // Perfect negotiation state, see
+  // https://developer.mozilla.org/en-US/docs/Web/API/WebRTC_API/Perfect_negotiation
+  private makingOffer = false
+  private ignoreOffer = false
+  private isSettingRemoteAnswerPending = false
+  private pendingCandidates: PendingCandidate[] = []
+  private transport: SignalingTransport
+  private unsubscribeTransport: () => void
+  private unsubscribeRejected: () => void
+  private pairingToken: string | undefined
+  private iceConfig: ResolvedIceConfig
+  // Incoming messages that failed validation
+  private droppedMessageCount = 0
   private statusCallback: WebRTConnectionStatusCallback
-  private onMessageReceived: MessageCallback
+  private messageListeners = new Set<MessageCallback>()
+  private connectionStateListeners = new Set<ConnectionStateListener>()
+  private recoveryListeners = new Set<RecoveryListener>()
+  private controlChannel: RTCDataChannel | null = null
+  private statsCollector = new StatsCollector(() => this.peerConnection)
+  private qualitySettings: QualitySettings = DEFAULT_QUALITY_SETTINGS
+  // Milliseconds the receivers should buffer, `null` leaves it to the browser
+  private jitterBufferTarget: number | null = null
 
   private videoElement: HTMLVideoElement
   private stream: MediaStream | null = null
+  // Whether the stream was created by this service and must be stopped by it
+  private ownsStream = true
+  // Stream the tracks were added with, tracks added later join it so the
+  // secondary shows them together
+  private senderStream: MediaStream | null = null
 
   constructor(
     role: PeerRole,
-    remoteWindow: Window | null,
+    transport: SignalingTransport,
     videoElement: HTMLVideoElement | null,
     statusCallback: WebRTConnectionStatusCallback,
     onMessageReceived: MessageCallback,
+    options: WebRTConnectionOptions = {},
   ) {
     this.role = role
-    if (!remoteWindow) {
-      throw new Error('Remote window is required for a WebRTC connection.')
-    }
-    this.remoteWindow = remoteWindow
+    this.transport = transport
     if (!videoElement) {
       throw new Error('Video element is required for a WebRTC connection.')
     }
     this.videoElement = videoElement
     this.statusCallback = statusCallback
-    this.onMessageReceived = onMessageReceived
+    this.messageListeners.add(onMessageReceived)
+    this.pairingToken = options.pairingToken
+    this.iceConfig = resolveIceConfig(options.iceConfig)
+    if (this.iceConfig.error) {
+      this.report(EventCode.ICE_CONFIG_INVALID, this.iceConfig.error)
+    }
+    this.unsubscribeTransport = this.transport.subscribe(this.handleMessage)
+    this.unsubscribeRejected =
+      this.transport.subscribeRejected?.((reason) =>
+        this.dropMessage(EventCode.MESSAGE_REJECTED, `Dropped ${reason}`),
+      ) ?? (() => {})
+    if (role === PeerRole.PRIMARY) {
+      this.recovery = new ConnectionRecovery(
+        {
+          restartIce: () => this.restartIce(),
+          renegotiate: () => this.negotiate(),
+          onProgress: (progress) => this.reportRecoveryProgress(progress),
+        },
+        options.reconnect ?? {},
+      )
+    }
   }
 
   public cleanup(): void {
+    this.recovery?.reset()
+    this.statsCollector.stop()
+    this.unsubscribeTransport()
+    this.unsubscribeRejected()
+    this.transport.close()
+    this.closeControlChannel()
     if (this.peerConnection) {
       this.peerConnection.close()
       this.peerConnection = null
     }
+    this.connectionId = null
     if (this.stream) {
-      for (const track of this.stream.getTracks()) {
-        track.stop()
+      if (this.ownsStream) {
+        for (const track of this.stream.getTracks()) {
+          track.stop()
+        }
       }
       this.stream = null
     }
+    this.senderStream = null
     if (this.videoElement?.srcObject) {
       this.videoElement.srcObject = null
     }
-    this.statusCallback('')
+    this.statusCallback(null)
   }
   /**
-   * Send a message to the remote window
+   * Pass an event to the status callback, with the message of the error that
+   * caused it
    */
-  public sendMessage(message: unknown): void {
-    if (this.remoteWindow && !this.remoteWindow.closed) {
-      this.remoteWindow.postMessage(message, '*')
+  private report(code: EventCode, message: string, error?: unknown): void {
+    this.statusCallback(createLogEvent(code, message, error))
+  }
+  /**
+   * Count and report an incoming message that failed validation
+   */
+  private dropMessage(code: EventCode, message: string, error?: unknown): void {
+    this.droppedMessageCount++
+    this.report(
+      code,
+      `${message} (${this.droppedMessageCount} dropped so far)`,
+      error,
+    )
+  }
+
+  public getDroppedMessageCount(): number {
+    return this.droppedMessageCount
+  }
+  /**
+   * Send a message to the remote peer, tagged with the protocol version
+   */
+  public sendMessage(message: ProtocolMessage): void {
+    if (this.transport.isOpen()) {
+      this.transport.send(toWireMessage(message, this.pairingToken))
     }
   }
   /**
-   * Handle incoming WebRTC related messages
+   * Send a message over the control data channel. Until the channel is open,
+   * the message goes over the signaling transport instead.
    */
-  public handleMessage(event: MessageEvent): void {
-    const data = event.data
-    if (data?.type === 'webrtc-offer') {
-      this.handleOffer(data.offer)
-    } else if (data?.type === 'webrtc-answer') {
-      this.handleAnswer(data.answer)
-    } else if (data?.type === 'ice-candidate') {
-      this.handleIceCandidate(data.candidate)
+  public sendControl(message: ChannelMessage): void {
+    if (this.controlChannel?.readyState === 'open') {
+      this.controlChannel.send(
+        JSON.stringify(toWireMessage(message, this.pairingToken)),
+      )
     } else {
-      // Pass other messages to the callback
-      this.onMessageReceived(data)
+      this.sendMessage(message)
     }
   }
   /**
-   * Creates and sends an offer (primary role)
+   * Listen for control messages from the remote peer, whichever way they
+   * arrive. Returns a function to stop listening.
    */
-  public async createOffer(videoElement: HTMLVideoElement): Promise<void> {
-    try {
-      this.statusCallback('Setting up WebRTC connection...')
-      this.videoElement = videoElement
-
-      if (videoElement.readyState < 2) {
-        this.statusCallback('Waiting for video to load...')
-        await new Promise<void>((resolve) => {
-          const onCanPlay = () => {
-            videoElement.removeEventListener('canplay', onCanPlay)
-            resolve()
-          }
-          videoElement.addEventListener('canplay', onCanPlay)
-        })
-      }
-      // Ensure video is playing
-      this.statusCallback('Capturing video stream...')
-      if (videoElement.paused) {
-        await videoElement.play()
-      }
-      // Capture the video stream
-      this.stream = captureVideoStream(videoElement)
-      if (this.stream.getTracks().length === 0) {
-        this.statusCallback('Error: No video tracks available', true)
-        return
-      }
-      // Initialize RTCPeerConnection
-      this.initializePeerConnection()
+  public subscribe(listener: MessageCallback): () => void {
+    this.messageListeners.add(listener)
+    return () => {
+      this.messageListeners.delete(listener)
+    }
+  }
 
-      // Add tracks from the stream
-      if (this.peerConnection && this.stream) {
-        for (const track of this.stream.getTracks()) {
-          this.peerConnection.addTrack(track, this.stream)
+  /**
+   * Listen for the state of the current peer connection, e.g. `connected`
+   * once media can flow. Returns a function to stop listening.
+   */
+  public subscribeConnectionState(
+    listener: ConnectionStateListener,
+  ): () => void {
+    this.connectionStateListeners.add(listener)
+    return () => {
+      this.connectionStateListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Listen for the progress of recovering a lost connection, driven by the
+   * primary: a failed peer connection is only lost for good once the
+   * recovery gave up. Returns a function to stop listening.
+   */
+  public subscribeRecovery(listener: RecoveryListener): () => void {
+    this.recoveryListeners.add(listener)
+    return () => {
+      this.recoveryListeners.delete(listener)
+    }
+  }
+
+  private notifyRecovery(progress: RecoveryProgress): void {
+    for (const listener of this.recoveryListeners) {
+      listener(progress)
+    }
+  }
+
+  public isControlChannelOpen(): boolean {
+    return this.controlChannel?.readyState === 'open'
+  }
+  /**
+   * Validate an incoming message and handle it if it is WebRTC related
+   */
+  private handleMessage = (data: unknown): void => {
+    let message: ProtocolMessage
+    try {
+      message = parseMessage(data, this.pairingToken)
+    } catch (error) {
+      this.dropMessage(
+        EventCode.MESSAGE_REJECTED,
+        'Rejected message from the other window',
+        error,
+      )
+      return
+    }
+    switch (message.type) {
+      case MessageType.WEBRTC_OFFER:
+        this.handleOffer(message)
+        break
+      case MessageType.WEBRTC_ANSWER:
+        // Ignore late answers for a replaced connection
+        if (message.connectionId === this.connectionId) {
+          this.handleDescription(message.answer)
+        }
+        break
+      case MessageType.ICE_CANDIDATE:
+        this.handleIceCandidate(message)
+        break
+      case MessageType.RECONNECTING:
+        this.handleReconnecting(message)
+        break
+      default:
+        // Pass other messages to the listeners
+        for (const listener of this.messageListeners) {
+          listener(message)
         }
+    }
+  }
+  /**
+   * Creates and sends an offer (primary role).
+   * Sends the given stream, which may be shared with other connections, or
+   * else captures one from the video element. Resolves with whether the
+   * negotiation started, the connection is up once its state is `connected`.
+   */
+  public async createOffer(stream?: MediaStream): Promise<boolean> {
+    try {
+      this.report(EventCode.CONNECTION_SETUP, 'Setting up WebRTC connection...')
+
+      if (stream) {
+        this.stream = stream
+        this.ownsStream = false
+      } else {
+        this.report(EventCode.CAPTURE_STARTED, 'Capturing video stream...')
+        this.stream = await captureVideoStreamWhenReady(this.videoElement)
+        this.ownsStream = true
       }
-      // Create offer
-      if (!this.peerConnection) {
-        this.statusCallback('Error: Peer connection not initialized', true)
-        return
+      if (this.stream.getTracks().length === 0) {
+        this.report(EventCode.NO_VIDEO_TRACK, 'No video tracks available')
+        return false
       }
-      const offer = await this.peerConnection.createOffer()
-      await this.peerConnection.setLocalDescription(offer)
-
-      // Send offer to secondary window
-      if (this.remoteWindow && this.peerConnection.localDescription) {
-        this.sendMessage({
-          type: 'webrtc-offer',
-          offer: this.peerConnection.localDescription.toJSON(),
-        })
-        this.statusCallback('WebRTC offer sent, waiting for answer...')
+      await this.negotiate()
+      return true
+    } catch (error) {
+      this.report(EventCode.SETUP_FAILED, 'WebRTC setup error', error)
+      return false
+    }
+  }
+  /**
+   * Set up a new peer connection sending the current stream (primary role).
+   * Adding the tracks fires `negotiationneeded`, which sends the offer.
+   */
+  private async negotiate(): Promise<void> {
+    this.initializePeerConnection(crypto.randomUUID())
+    if (this.peerConnection && this.stream) {
+      this.senderStream = this.stream
+      for (const track of this.stream.getTracks()) {
+        this.peerConnection.addTrack(track, this.stream)
       }
+    }
+  }
+  /**
+   * Restart ICE on the current peer connection, keeping its tracks and data
+   * channel (primary role). Fires `negotiationneeded` with an ICE restart
+   * offer.
+   */
+  private async restartIce(): Promise<void> {
+    if (!this.peerConnection) {
+      throw new Error('No peer connection to restart')
+    }
+    this.peerConnection.restartIce()
+  }
+  /**
+   * Create and send an offer for the current peer connection, from either
+   * side. Runs whenever the browser reports that negotiation is needed.
+   */
+  private async makeOffer(): Promise<void> {
+    const peerConnection = this.peerConnection
+    if (!peerConnection) {
+      return
+    }
+    try {
+      this.makingOffer = true
+      this.applyCodecPreferences()
+      await peerConnection.setLocalDescription()
+      await this.applyEncodingParameters()
+      this.sendLocalDescription()
     } catch (error) {
-      this.statusCallback(
-        `WebRTC setup error: ${error instanceof Error ? error.message : String(error)}`,
-        true,
+      this.report(EventCode.OFFER_FAILED, 'Error creating an offer', error)
+    } finally {
+      this.makingOffer = false
+    }
+  }
+  /**
+   * Send the local offer or answer to the remote peer
+   */
+  private sendLocalDescription(): void {
+    const description = this.peerConnection?.localDescription
+    if (!description || !this.connectionId) {
+      return
+    }
+    if (description.type === 'offer') {
+      this.sendMessage({
+        type: MessageType.WEBRTC_OFFER,
+        connectionId: this.connectionId,
+        offer: description.toJSON(),
+      })
+      this.report(
+        EventCode.OFFER_SENT,
+        'WebRTC offer sent, waiting for answer...',
+      )
+    } else {
+      this.sendMessage({
+        type: MessageType.WEBRTC_ANSWER,
+        connectionId: this.connectionId,
+        answer: description.toJSON(),
+      })
+      this.report(
+        EventCode.ANSWER_SENT,
+        'WebRTC answer sent, waiting for media...',
       )
     }
   }
   /**
-   * Handle an offer received from the primary (secondary role)
+   * Report the progress of reconnecting to both windows (primary role)
    */
-  private async handleOffer(offer: RTCSessionDescriptionInit): Promise<void> {
-    try {
-      this.statusCallback('Setting up WebRTC connection...')
-
-      // Initialize RTCPeerConnection
-      this.initializePeerConnection()
-
-      if (!this.peerConnection) {
-        this.statusCallback('Error: Peer connection not initialized', true)
+  private reportRecoveryProgress(progress: RecoveryProgress): void {
+    const { state, attempt, maxAttempts } = progress
+    this.notifyRecovery(progress)
+    switch (state) {
+      case RecoveryState.IDLE:
+        this.report(EventCode.RECONNECTED, 'Reconnected')
         return
-      }
-      // Set the remote description (the offer)
-      await this.peerConnection.setRemoteDescription(
-        new RTCSessionDescription(offer),
+      case RecoveryState.WAITING:
+        this.report(
+          EventCode.RECONNECTING,
+          `Connection lost, reconnecting (attempt ${attempt}/${maxAttempts})...`,
+        )
+        break
+      case RecoveryState.RESTARTING_ICE:
+        this.report(
+          EventCode.RECONNECTING,
+          `Reconnecting (attempt ${attempt}/${maxAttempts}): restarting ICE...`,
+        )
+        return
+      case RecoveryState.RENEGOTIATING:
+        this.report(
+          EventCode.RECONNECTING,
+          `Reconnecting (attempt ${attempt}/${maxAttempts}): setting up a new connection...`,
+        )
+        return
+      case RecoveryState.GAVE_UP:
+        this.report(
+          EventCode.RECONNECT_FAILED,
+          `Could not reconnect after ${maxAttempts} attempts. Close and reopen the secondary window.`,
+        )
+        break
+    }
+    this.sendMessage({
+      type: MessageType.RECONNECTING,
+      attempt,
+      maxAttempts,
+      gaveUp: state === RecoveryState.GAVE_UP,
+    })
+  }
+  /**
+   * Show the primary's progress reconnecting (secondary role)
+   */
+  private handleReconnecting({
+    attempt,
+    maxAttempts,
+    gaveUp,
+  }: ReconnectingMessage): void {
+    this.notifyRecovery({
+      state: gaveUp ? RecoveryState.GAVE_UP : RecoveryState.WAITING,
+      attempt,
+      maxAttempts,
+    })
+    if (gaveUp) {
+      this.report(
+        EventCode.RECONNECT_FAILED,
+        'The primary window could not reconnect. Close and reopen this window.',
+      )
+    } else {
+      this.report(
+        EventCode.RECONNECTING,
+        `Connection lost, the primary window is reconnecting (attempt ${attempt}/${maxAttempts})...`,
+      )
+    }
+  }
+  /**
+   * Change the encoding of the outgoing video (primary role). Applied live
+   * where the browser allows it, otherwise by renegotiating the connection.
+   */
+  public async setQualitySettings(settings: QualitySettings): Promise<void> {
+    const previous = this.qualitySettings
+    this.qualitySettings = settings
+    if (
+      this.role !== PeerRole.PRIMARY ||
+      !this.peerConnection ||
+      !this.stream
+    ) {
+      // Applied when the connection is set up
+      return
+    }
+    const needsNegotiation =
+      previous.preferredCodec !== settings.preferredCodec ||
+      !(await this.applyEncodingParameters())
+    if (!needsNegotiation) {
+      this.report(EventCode.QUALITY_APPLIED, 'Quality settings applied')
+      return
+    }
+    try {
+      this.report(
+        EventCode.QUALITY_RENEGOTIATING,
+        'Renegotiating to apply the quality settings...',
+      )
+      await this.makeOffer()
+    } catch (error) {
+      this.report(
+        EventCode.QUALITY_FAILED,
+        'Error applying the quality settings',
+        error,
       )
-      // Create an answer
-      const answer = await this.peerConnection.createAnswer()
-      await this.peerConnection.setLocalDescription(answer)
+    }
+  }
 
-      // Set up track handling
-      this.setupVideoTrackHandlingOnSecondary()
+  public getQualitySettings(): QualitySettings {
+    return this.qualitySettings
+  }
+  /**
+   * Make the receivers buffer the given number of milliseconds (secondary
+   * role), e.g. to show the video at the same time as other windows.
+   * Browsers without `jitterBufferTarget` ignore it.
+   */
+  public setJitterBufferTarget(target: number | null): void {
+    this.jitterBufferTarget = target
+    for (const receiver of this.peerConnection?.getReceivers() ?? []) {
+      this.applyJitterBufferTarget(receiver)
+    }
+  }
 
-      // Send the answer back
-      this.sendMessage({
-        type: 'webrtc-answer',
-        answer,
-      })
-      this.statusCallback('WebRTC connection established, waiting for video...')
-    } catch (error) {
-      this.statusCallback(`WebRTC setup error: ${error}`, true)
+  private applyJitterBufferTarget(receiver: RTCRtpReceiver): void {
+    if ('jitterBufferTarget' in receiver) {
+      receiver.jitterBufferTarget = this.jitterBufferTarget
+    }
+  }
+  /**
+   * Put the preferred codec first on the video transceivers, before an offer
+   */
+  private applyCodecPreferences(): void {
+    const { preferredCodec } = this.qualitySettings
+    if (!this.peerConnection || !preferredCodec) {
+      return
+    }
+    const codecs = orderCodecs(preferredCodec)
+    if (!codecs) {
+      this.report(
+        EventCode.CODEC_UNSUPPORTED,
+        `Codec ${preferredCodec} is not supported, using the browser's choice`,
+      )
+      return
+    }
+    for (const transceiver of this.peerConnection.getTransceivers()) {
+      if (
+        transceiver.sender.track?.kind === 'video' &&
+        typeof transceiver.setCodecPreferences === 'function'
+      ) {
+        transceiver.setCodecPreferences(codecs)
+      }
     }
   }
   /**
-   * Handle an answer received from the secondary (primary role)
+   * Apply bitrate, resolution and frame rate limits to the video senders.
+   * Returns false when the browser refused them.
    */
-  private async handleAnswer(answer: RTCSessionDescriptionInit): Promise<void> {
+  private async applyEncodingParameters(): Promise<boolean> {
+    if (!this.peerConnection) {
+      return false
+    }
+    const senders = this.peerConnection
+      .getSenders()
+      .filter((sender) => sender.track?.kind === 'video')
     try {
-      if (!this.peerConnection) {
-        this.statusCallback('No peer connection available', true)
-        return
+      for (const sender of senders) {
+        const parameters = sender.getParameters()
+        if (!parameters.encodings?.length) {
+          return false
+        }
+        await sender.setParameters(
+          applyQualityToParameters(parameters, this.qualitySettings),
+        )
       }
-      await this.peerConnection.setRemoteDescription(
-        new RTCSessionDescription(answer),
+      return true
+    } catch (error) {
+      this.report(
+        EventCode.QUALITY_FAILED,
+        'Could not apply the quality settings live',
+        error,
+      )
+      return false
+    }
+  }
+  /**
+   * Swap the outgoing track of the same kind without renegotiating, e.g. when
+   * the captured video switches to another source. Without a track of that
+   * kind yet, e.g. audio starting late, the track is added and the connection
+   * renegotiated.
+   */
+  public async replaceTrack(track: MediaStreamTrack): Promise<boolean> {
+    if (!this.peerConnection) {
+      this.report(
+        EventCode.TRACK_REPLACE_FAILED,
+        `Cannot send the new ${track.kind} track: not connected`,
       )
-      this.statusCallback('WebRTC connection established')
+      return false
+    }
+    const sender = this.peerConnection
+      .getTransceivers()
+      .find(
+        (transceiver) =>
+          (transceiver.sender.track ?? transceiver.receiver.track).kind ===
+          track.kind,
+      )?.sender
+    if (!sender) {
+      // Fires negotiationneeded
+      const stream = this.senderStream ?? this.stream
+      if (stream) {
+        this.peerConnection.addTrack(track, stream)
+      } else {
+        this.peerConnection.addTrack(track)
+      }
+      return true
+    }
+    try {
+      await sender.replaceTrack(track)
+      return true
     } catch (error) {
-      this.statusCallback(
-        `WebRTC error: ${error instanceof Error ? error.message : String(error)}`,
-        true,
+      this.report(
+        EventCode.TRACK_REPLACE_FAILED,
+        `Error replacing ${track.kind} track`,
+        error,
       )
+      return false
+    }
+  }
+  /**
+   * Send another stream, e.g. when the user switches the shared source
+   * (primary role). Tracks are replaced in place and kinds the new stream
+   * lacks are muted, so the secondary keeps its session.
+   */
+  public async switchStream(stream: MediaStream): Promise<boolean> {
+    if (this.stream && this.ownsStream && this.stream !== stream) {
+      for (const track of this.stream.getTracks()) {
+        track.stop()
+      }
+    }
+    this.stream = stream
+    this.ownsStream = false
+    if (!this.peerConnection) {
+      return true
+    }
+    let switched = true
+    for (const kind of ['audio', 'video']) {
+      const track = stream.getTracks().find((track) => track.kind === kind)
+      if (track) {
+        switched = (await this.replaceTrack(track)) && switched
+        continue
+      }
+      const sender = this.peerConnection
+        .getSenders()
+        .find((sender) => sender.track?.kind === kind)
+      await sender?.replaceTrack(null)
     }
+    return switched
   }
   /**
-   * Handle ICE candidate from the remote peer
+   * Handle an offer. The primary sets up connections, so an offer with a new
+   * id replaces the secondary's connection, while the primary ignores offers
+   * for a connection it replaced.
    */
-  private async handleIceCandidate(
-    candidate: RTCIceCandidateInit | null,
+  private async handleOffer({
+    connectionId,
+    offer,
+  }: WebRTCOfferMessage): Promise<void> {
+    if (connectionId !== this.connectionId || !this.peerConnection) {
+      if (this.role === PeerRole.PRIMARY) {
+        return
+      }
+      this.report(EventCode.CONNECTION_SETUP, 'Setting up WebRTC connection...')
+      this.initializePeerConnection(connectionId)
+    }
+    await this.handleDescription(offer)
+  }
+  /**
+   * Apply a remote offer or answer following the perfect negotiation pattern:
+   * on colliding offers the polite secondary gives way, the impolite primary
+   * ignores the remote offer.
+   */
+  private async handleDescription(
+    description: RTCSessionDescriptionInit,
   ): Promise<void> {
+    const peerConnection = this.peerConnection
+    if (!peerConnection) {
+      return
+    }
     try {
-      if (!this.peerConnection) {
-        this.statusCallback(
-          'Error adding ICE candidate. No peer connection set up.',
-          true,
-        )
+      const readyForOffer =
+        !this.makingOffer &&
+        (peerConnection.signalingState === 'stable' ||
+          this.isSettingRemoteAnswerPending)
+      const offerCollision = description.type === 'offer' && !readyForOffer
+      this.ignoreOffer = this.role === PeerRole.PRIMARY && offerCollision
+      if (this.ignoreOffer) {
         return
       }
-      if (candidate) {
-        await this.peerConnection.addIceCandidate(
-          new RTCIceCandidate(candidate),
+      this.isSettingRemoteAnswerPending = description.type === 'answer'
+      // Rolls back a colliding local offer of the polite peer
+      await peerConnection.setRemoteDescription(description)
+      this.isSettingRemoteAnswerPending = false
+      await this.addPendingCandidates()
+      if (description.type === 'offer') {
+        await peerConnection.setLocalDescription()
+        this.sendLocalDescription()
+      } else {
+        this.report(
+          EventCode.CONNECTION_ESTABLISHED,
+          'WebRTC connection established',
         )
       }
     } catch (error) {
-      this.statusCallback(`Error adding ICE candidate: ${error}`, true)
+      this.isSettingRemoteAnswerPending = false
+      this.report(
+        EventCode.NEGOTIATION_FAILED,
+        'WebRTC negotiation error',
+        error,
+      )
+    }
+  }
+  /**
+   * Handle an ICE candidate from the remote peer. Candidates arriving before
+   * the remote description, or on the secondary before the offer of their
+   * connection, are queued until they can be added.
+   */
+  private async handleIceCandidate({
+    connectionId,
+    candidate,
+  }: IceCandidateMessage): Promise<void> {
+    if (!candidate) {
+      // End of candidates
+      return
+    }
+    if (connectionId !== this.connectionId) {
+      if (this.role === PeerRole.SECONDARY) {
+        this.pendingCandidates.push({ connectionId, candidate })
+      }
+      return
+    }
+    if (!this.peerConnection?.remoteDescription) {
+      this.pendingCandidates.push({ connectionId, candidate })
+      return
+    }
+    await this.addIceCandidate(candidate)
+  }
+
+  private async addPendingCandidates(): Promise<void> {
+    const pending = this.pendingCandidates.filter(
+      ({ connectionId }) => connectionId === this.connectionId,
+    )
+    this.pendingCandidates = []
+    for (const { candidate } of pending) {
+      await this.addIceCandidate(candidate)
     }
   }
 
-  private initializePeerConnection(): void {
+  private async addIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    try {
+      await this.peerConnection?.addIceCandidate(candidate)
+    } catch (error) {
+      // Candidates of an ignored offer are expected to fail
+      if (!this.ignoreOffer) {
+        this.report(
+          EventCode.ICE_CANDIDATE_FAILED,
+          'Error adding ICE candidate',
+          error,
+        )
+      }
+    }
+  }
+
+  private initializePeerConnection(connectionId: string): void {
     // Cleanup existing connection if any
+    this.closeControlChannel()
+    this.statsCollector.reset()
     if (this.peerConnection) {
       this.peerConnection.close()
     }
     // Create new connection
-    this.peerConnection = new RTCPeerConnection({
-      iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
-    })
-    // Set up common event handlers
-    this.peerConnection.onconnectionstatechange = () => {
-      const isError =
-        this.peerConnection?.connectionState === 'failed' ||
-        this.peerConnection?.connectionState === 'disconnected'
-      this.statusCallback(
-        `WebRTC connection state is "${this.peerConnection?.connectionState}"`,
-        isError,
-      )
+    const peerConnection = new RTCPeerConnection(
+      toRTCConfiguration(this.iceConfig.config),
+    )
+    this.peerConnection = peerConnection
+    this.connectionId = connectionId
+    this.makingOffer = false
+    this.ignoreOffer = false
+    this.isSettingRemoteAnswerPending = false
+    this.pendingCandidates = this.pendingCandidates.filter(
+      (pending) => pending.connectionId === connectionId,
+    )
+    // Set up common event handlers, ignoring events of replaced connections
+    peerConnection.onconnectionstatechange = () => {
+      if (this.peerConnection !== peerConnection) {
+        return
+      }
+      const { connectionState } = peerConnection
+      const isLost =
+        connectionState === 'failed' || connectionState === 'disconnected'
+      if (!isLost) {
+        this.report(
+          EventCode.CONNECTION_STATE,
+          `WebRTC connection state is "${connectionState}"`,
+        )
+      } else if (this.role === PeerRole.SECONDARY) {
+        this.report(
+          EventCode.CONNECTION_LOST,
+          'Connection lost, waiting for the primary window to reconnect...',
+        )
+      } else {
+        this.report(
+          EventCode.CONNECTION_LOST,
+          `WebRTC connection state is "${connectionState}"`,
+        )
+      }
+      this.recovery?.handleConnectionState(connectionState)
+      for (const listener of this.connectionStateListeners) {
+        listener(connectionState)
+      }
     }
-    this.peerConnection.oniceconnectionstatechange = () => {
-      const isError =
-        this.peerConnection?.iceConnectionState === 'failed' ||
-        this.peerConnection?.iceConnectionState === 'disconnected'
-      this.statusCallback(
-        `ICE connection state is "${this.peerConnection?.iceConnectionState}"`,
-        isError,
+    peerConnection.oniceconnectionstatechange = () => {
+      if (this.peerConnection !== peerConnection) {
+        return
+      }
+      const { iceConnectionState } = peerConnection
+      this.report(
+        iceConnectionState === 'failed' || iceConnectionState === 'disconnected'
+          ? EventCode.ICE_STATE_FAILED
+          : EventCode.ICE_STATE,
+        `ICE connection state is "${iceConnectionState}"`,
       )
     }
-    this.peerConnection.onicecandidate = (event) => {
+    peerConnection.onnegotiationneeded = () => {
+      if (this.peerConnection === peerConnection) {
+        this.makeOffer()
+      }
+    }
+    peerConnection.onicecandidate = (event) => {
       this.sendMessage({
-        type: 'ice-candidate',
+        type: MessageType.ICE_CANDIDATE,
+        connectionId,
         candidate: event.candidate
           ? {
               candidate: event.candidate.candidate,
@@ -264,8 +849,67 @@ export class WebRTConnectionService {
           : null,
       })
     }
+    // The primary opens the control channel, the secondary receives it
+    if (this.role === PeerRole.PRIMARY) {
+      this.setupControlChannel(
+        peerConnection.createDataChannel(CONTROL_CHANNEL_LABEL, {
+          ordered: true,
+        }),
+      )
+    } else {
+      peerConnection.ondatachannel = (event) => {
+        if (event.channel.label === CONTROL_CHANNEL_LABEL) {
+          this.setupControlChannel(event.channel)
+        }
+      }
+    }
     this.setupVideoTrackHandlingOnSecondary()
   }
+  /**
+   * Set up event handling for the control data channel
+   */
+  private setupControlChannel(channel: RTCDataChannel): void {
+    this.controlChannel = channel
+    channel.onopen = () => {
+      this.report(EventCode.CONTROL_CHANNEL_OPEN, 'Control channel open')
+    }
+    channel.onclose = () => {
+      if (this.controlChannel === channel) {
+        this.controlChannel = null
+      }
+    }
+    channel.onerror = () => {
+      this.report(EventCode.CONTROL_CHANNEL_ERROR, 'Control channel error')
+    }
+    channel.onmessage = (event: MessageEvent) => {
+      if (typeof event.data !== 'string') {
+        this.dropMessage(
+          EventCode.CONTROL_MESSAGE_REJECTED,
+          'Rejected binary message on the control channel',
+        )
+        return
+      }
+      let data: unknown
+      try {
+        data = JSON.parse(event.data)
+      } catch {
+        this.dropMessage(
+          EventCode.CONTROL_MESSAGE_REJECTED,
+          'Rejected malformed message on the control channel',
+        )
+        return
+      }
+      this.handleMessage(data)
+    }
+  }
+
+  private closeControlChannel(): void {
+    if (this.controlChannel) {
+      this.controlChannel.onclose = null
+      this.controlChannel.close()
+      this.controlChannel = null
+    }
+  }
   /**
    * Set up track event handling for the video element
    */
@@ -275,26 +919,65 @@ export class WebRTConnectionService {
     if (this.role === PeerRole.PRIMARY) return
 
     this.peerConnection.ontrack = (event) => {
-      this.statusCallback(`New track of type "${event.track.kind}" received.`)
-      if (event.streams?.[0]) {
+      this.report(
+        EventCode.TRACK_RECEIVED,
+        `New track of type "${event.track.kind}" received.`,
+      )
+      this.applyJitterBufferTarget(event.receiver)
+      const stream = event.streams?.[0]
+      if (stream) {
         if (this.videoElement) {
-          this.stream = event.streams[0]
-          this.videoElement.srcObject = this.stream
+          const showStream = () => {
+            this.stream = stream
+            this.videoElement.srcObject = stream
+          }
+          // After a reconnection, keep the last frame until the new video
+          // track delivers media
+          const videoTrack = stream.getVideoTracks()[0]
+          if (
+            this.videoElement.srcObject &&
+            this.videoElement.srcObject !== stream &&
+            videoTrack?.muted
+          ) {
+            videoTrack.addEventListener('unmute', showStream, { once: true })
+          } else {
+            showStream()
+          }
         } else {
-          this.statusCallback(
+          this.report(
+            EventCode.NO_VIDEO_ELEMENT,
             'Video track received but no video element is set',
-            true,
           )
         }
       }
     }
   }
 
+  /**
+   * Listen for connection statistics, polled while somebody listens
+   */
+  public subscribeStats(listener: StatsListener): () => void {
+    return this.statsCollector.subscribe(listener)
+  }
+
+  public getStatsCollector(): StatsCollector {
+    return this.statsCollector
+  }
+
   public getPeerConnection(): RTCPeerConnection | null {
     return this.peerConnection
   }
 
+  /** ICE configuration of the connections and where it comes from */
+  public getIceConfig(): ResolvedIceConfig {
+    return this.iceConfig
+  }
+
   public getRole(): PeerRole {
     return this.role
   }
+
+  public getTransport(): SignalingTransport {
+    return this.transport
+  }
 }
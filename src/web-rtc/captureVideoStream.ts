@@ -19,3 +19,42 @@ export const captureVideoStream = (video: HTMLVideoElement): MediaStream => {
   // If neither is available, throw an error
   throw new Error('Video capture not supported in this browser')
 }
+
+/**
+ * Fired on a video element muted to be captured, as its browser did not allow
+ * it to play with sound
+ */
+export const AUTOPLAY_MUTED_EVENT = 'autoplaymuted'
+
+// Wait until the video can play, make sure it is playing and capture its stream
+export const captureVideoStreamWhenReady = async (
+  video: HTMLVideoElement,
+): Promise<MediaStream> => {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+    await new Promise<void>((resolve) => {
+      const onCanPlay = () => {
+        video.removeEventListener('canplay', onCanPlay)
+        resolve()
+      }
+      video.addEventListener('canplay', onCanPlay)
+    })
+  }
+  if (video.paused) {
+    try {
+      await video.play()
+    } catch (error) {
+      // Audible autoplay is blocked without a user gesture, but capturing
+      // needs a playing video: play it muted, the stream still has the audio.
+      // The page can offer to unmute it with a click.
+      if (
+        !(error instanceof DOMException && error.name === 'NotAllowedError')
+      ) {
+        throw error
+      }
+      video.muted = true
+      video.dispatchEvent(new Event(AUTOPLAY_MUTED_EVENT))
+      await video.play()
+    }
+  }
+  return captureVideoStream(video)
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  DEFAULT_ICE_CONFIG,
+  type IceConfig,
+  IceConfigSource,
+  IceMode,
+  describeIceConfig,
+  parseIceServers,
+  resolveIceConfig,
+} from './iceConfig'
+
+const TURN_SERVER = {
+  urls: 'turn:turn.example.com:3478',
+  username: 'user',
+  credential: 'secret',
+}
+
+const toSearch = (params: Record<string, string>) =>
+  `?${new URLSearchParams(params)}`
+
+describe('parseIceServers', () => {
+  it('keeps only the fields of an ICE server', () => {
+    expect(
+      parseIceServers(JSON.stringify([{ ...TURN_SERVER, extra: true }])),
+    ).toEqual([TURN_SERVER])
+  })
+
+  it('rejects what is not a list of ICE servers', () => {
+    expect(() => parseIceServers('{"urls":"stun:a"}')).toThrow()
+    expect(() => parseIceServers('[{"urls":1}]')).toThrow()
+    expect(() => parseIceServers('not json')).toThrow()
+  })
+})
+
+describe('resolveIceConfig', () => {
+  it('prefers the given option', () => {
+    const option: IceConfig = {
+      mode: IceMode.SERVERS,
+      iceServers: [TURN_SERVER],
+      iceTransportPolicy: 'relay',
+    }
+    expect(
+      resolveIceConfig(option, toSearch({ iceMode: IceMode.HOST_ONLY })),
+    ).toEqual({ config: option, source: IceConfigSource.OPTION })
+  })
+
+  it('uses host candidates only by default', () => {
+    expect(resolveIceConfig(undefined, '')).toEqual({
+      config: DEFAULT_ICE_CONFIG,
+      source: IceConfigSource.DEFAULT,
+    })
+  })
+
+  it('reads the URL, servers implying the servers mode', () => {
+    expect(
+      resolveIceConfig(
+        undefined,
+        toSearch({
+          iceServers: JSON.stringify([TURN_SERVER]),
+          iceTransportPolicy: 'relay',
+        }),
+      ),
+    ).toEqual({
+      config: {
+        mode: IceMode.SERVERS,
+        iceServers: [TURN_SERVER],
+        iceTransportPolicy: 'relay',
+      },
+      source: IceConfigSource.URL,
+    })
+  })
+
+  it('drops the servers in the host only mode', () => {
+    const { config } = resolveIceConfig(
+      undefined,
+      toSearch({
+        iceMode: IceMode.HOST_ONLY,
+        iceServers: JSON.stringify([TURN_SERVER]),
+      }),
+    )
+    expect(config.iceServers).toEqual([])
+  })
+
+  it('skips an invalid configuration and keeps its error', () => {
+    const resolved = resolveIceConfig(
+      undefined,
+      toSearch({ iceMode: IceMode.SERVERS }),
+    )
+    expect(resolved.config).toEqual(DEFAULT_ICE_CONFIG)
+    expect(resolved.source).toBe(IceConfigSource.DEFAULT)
+    expect(resolved.error).toContain('needs at least one ICE server')
+    expect(
+      resolveIceConfig(undefined, toSearch({ iceTransportPolicy: 'none' }))
+        .error,
+    ).toContain('Unknown ICE transport policy "none"')
+  })
+})
+
+describe('describeIceConfig', () => {
+  it('masks the credentials', () => {
+    const description = describeIceConfig({
+      config: {
+        mode: IceMode.SERVERS,
+        iceServers: [TURN_SERVER, { urls: 'stun:stun.example.com' }],
+        iceTransportPolicy: 'all',
+      },
+      source: IceConfigSource.URL,
+    })
+    expect(description.iceServers).toEqual([
+      { ...TURN_SERVER, credential: '***' },
+      { urls: 'stun:stun.example.com' },
+    ])
+    expect(JSON.stringify(description)).not.toContain('secret')
+  })
+
+  it('keeps the error of the resolution', () => {
+    expect(
+      describeIceConfig({
+        config: DEFAULT_ICE_CONFIG,
+        source: IceConfigSource.DEFAULT,
+        error: 'Ignored',
+      }).error,
+    ).toBe('Ignored')
+  })
+})
@@ -0,0 +1,199 @@
+export const IceMode = {
+  /** Only local candidates: enough when both windows run on one machine */
+  HOST_ONLY: 'hostOnly',
+  /** Gather candidates from the configured STUN and TURN servers as well */
+  SERVERS: 'servers',
+} as const
+
+export type IceMode = (typeof IceMode)[keyof typeof IceMode]
+
+export interface IceConfig {
+  mode: IceMode
+  iceServers: RTCIceServer[]
+  /** `relay` forces the traffic through a TURN server */
+  iceTransportPolicy: RTCIceTransportPolicy
+}
+
+/** Where the active configuration comes from */
+export const IceConfigSource = {
+  OPTION: 'option',
+  URL: 'url',
+  ENV: 'env',
+  DEFAULT: 'default',
+} as const
+
+export type IceConfigSource =
+  (typeof IceConfigSource)[keyof typeof IceConfigSource]
+
+export interface ResolvedIceConfig {
+  config: IceConfig
+  source: IceConfigSource
+  /** Why a configuration was ignored, e.g. invalid JSON */
+  error?: string
+}
+
+export const DEFAULT_ICE_CONFIG: IceConfig = {
+  mode: IceMode.HOST_ONLY,
+  iceServers: [],
+  iceTransportPolicy: 'all',
+}
+
+// Search parameters of the ICE configuration, passed on to the secondary
+// window so both ends agree
+export const ICE_SEARCH_PARAM_NAMES = {
+  mode: 'iceMode',
+  servers: 'iceServers',
+  transportPolicy: 'iceTransportPolicy',
+} as const
+
+const isStringList = (value: unknown): value is string | string[] =>
+  typeof value === 'string' ||
+  (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+
+const isIceServer = (value: unknown): value is RTCIceServer => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const server = value as Record<string, unknown>
+  return (
+    isStringList(server.urls) &&
+    (server.username === undefined || typeof server.username === 'string') &&
+    (server.credential === undefined || typeof server.credential === 'string')
+  )
+}
+
+/**
+ * Parse a JSON list of ICE servers, e.g.
+ * `[{"urls":"turn:turn.example.com:3478","username":"u","credential":"p"}]`
+ */
+export const parseIceServers = (json: string): RTCIceServer[] => {
+  const value: unknown = JSON.parse(json)
+  if (!Array.isArray(value) || !value.every(isIceServer)) {
+    throw new Error(
+      'ICE servers must be a list of { urls, username?, credential? }',
+    )
+  }
+  return value.map(({ urls, username, credential }) => ({
+    urls,
+    ...(username !== undefined && { username }),
+    ...(credential !== undefined && { credential }),
+  }))
+}
+
+interface IceSettings {
+  mode?: string
+  servers?: string
+  transportPolicy?: string
+}
+
+const toIceConfig = ({
+  mode,
+  servers,
+  transportPolicy,
+}: IceSettings): IceConfig => {
+  if (mode !== undefined && !Object.values<string>(IceMode).includes(mode)) {
+    throw new Error(`Unknown ICE mode "${mode}"`)
+  }
+  if (
+    transportPolicy !== undefined &&
+    transportPolicy !== 'all' &&
+    transportPolicy !== 'relay'
+  ) {
+    throw new Error(`Unknown ICE transport policy "${transportPolicy}"`)
+  }
+  const iceServers = servers ? parseIceServers(servers) : []
+  // Servers without a mode mean the servers should be used
+  const resolvedMode =
+    (mode as IceMode | undefined) ??
+    (iceServers.length > 0 ? IceMode.SERVERS : IceMode.HOST_ONLY)
+  if (resolvedMode === IceMode.SERVERS && iceServers.length === 0) {
+    throw new Error('The "servers" ICE mode needs at least one ICE server')
+  }
+  return {
+    mode: resolvedMode,
+    iceServers: resolvedMode === IceMode.SERVERS ? iceServers : [],
+    iceTransportPolicy: transportPolicy ?? 'all',
+  }
+}
+
+const hasSettings = (settings: IceSettings) =>
+  Object.values(settings).some((value) => value !== undefined && value !== '')
+
+const fromSearchParams = (search: string): IceSettings => {
+  const params = new URLSearchParams(search)
+  return {
+    mode: params.get(ICE_SEARCH_PARAM_NAMES.mode) ?? undefined,
+    servers: params.get(ICE_SEARCH_PARAM_NAMES.servers) ?? undefined,
+    transportPolicy:
+      params.get(ICE_SEARCH_PARAM_NAMES.transportPolicy) ?? undefined,
+  }
+}
+
+const fromEnv = (): IceSettings => ({
+  mode: import.meta.env.VITE_ICE_MODE || undefined,
+  servers: import.meta.env.VITE_ICE_SERVERS || undefined,
+  transportPolicy: import.meta.env.VITE_ICE_TRANSPORT_POLICY || undefined,
+})
+
+/**
+ * Pick the ICE configuration: the given option first, then the URL's search
+ * parameters, then the `VITE_ICE_*` environment variables, then host
+ * candidates only. An invalid configuration is skipped and its error kept.
+ */
+export const resolveIceConfig = (
+  option?: IceConfig,
+  search = window.location.search,
+): ResolvedIceConfig => {
+  if (option) {
+    return { config: option, source: IceConfigSource.OPTION }
+  }
+  const errors: string[] = []
+  const candidates: [IceConfigSource, IceSettings][] = [
+    [IceConfigSource.URL, fromSearchParams(search)],
+    [IceConfigSource.ENV, fromEnv()],
+  ]
+  for (const [source, settings] of candidates) {
+    if (!hasSettings(settings)) {
+      continue
+    }
+    try {
+      const config = toIceConfig(settings)
+      return errors.length
+        ? { config, source, error: errors.join('; ') }
+        : { config, source }
+    } catch (error) {
+      errors.push(
+        `Ignored the ICE configuration from the ${source}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+  return errors.length
+    ? {
+        config: DEFAULT_ICE_CONFIG,
+        source: IceConfigSource.DEFAULT,
+        error: errors.join('; '),
+      }
+    : { config: DEFAULT_ICE_CONFIG, source: IceConfigSource.DEFAULT }
+}
+
+/** Peer connection configuration for the given ICE configuration */
+export const toRTCConfiguration = (config: IceConfig): RTCConfiguration => ({
+  iceServers: config.iceServers,
+  iceTransportPolicy: config.iceTransportPolicy,
+})
+
+/** The configuration for diagnostics, with the credentials masked */
+export const describeIceConfig = ({
+  config,
+  source,
+  error,
+}: ResolvedIceConfig) => ({
+  source,
+  mode: config.mode,
+  iceTransportPolicy: config.iceTransportPolicy,
+  iceServers: config.iceServers.map((server) => ({
+    ...server,
+    ...(server.credential !== undefined && { credential: '***' }),
+  })),
+  ...(error !== undefined && { error }),
+})
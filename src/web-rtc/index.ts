@@ -1,6 +1,106 @@
-export { captureVideoStream } from './captureVideoStream'
-export { PeerRole, WebRTConnectionService } from './WebRTConnectionService'
+export {
+  BroadcastChannelTransport,
+  DEFAULT_BROADCAST_CHANNEL_NAME,
+  listenForBroadcastPeers,
+} from './BroadcastChannelTransport'
 export type {
+  BroadcastChannelTransportOptions,
+  BroadcastPeerListenerOptions,
+} from './BroadcastChannelTransport'
+export {
+  AUTOPLAY_MUTED_EVENT,
+  captureVideoStream,
+  captureVideoStreamWhenReady,
+} from './captureVideoStream'
+export {
+  DEFAULT_ICE_CONFIG,
+  ICE_SEARCH_PARAM_NAMES,
+  IceConfigSource,
+  IceMode,
+  describeIceConfig,
+  parseIceServers,
+  resolveIceConfig,
+  toRTCConfiguration,
+} from './iceConfig'
+export type { IceConfig, ResolvedIceConfig } from './iceConfig'
+export { InMemoryTransport } from './InMemoryTransport'
+export { PostMessageTransport } from './PostMessageTransport'
+export {
+  AnnotationMode,
+  AnnotationTool,
+  AudioRouting,
+  MessageType,
+  PlaybackAction,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  ProtocolVersionMismatchError,
+  PairingError,
+  parseMessage,
+  toWireMessage,
+} from './protocol'
+export type {
+  AnnotationPoint,
+  AnnotationStroke,
+  AnnotationsMessage,
+  CaptionCue,
+  ChannelMessage,
+  ControlMessage,
+  FrameMarkerSighting,
+  LatencyPingMessage,
+  LatencyPongMessage,
+  LatencyTargetMessage,
+  PlaybackCommand,
+  PlaybackState,
+  ProtocolMessage,
+  ReceiverDelays,
+  ReconnectingMessage,
+  SignalingMessage,
+  WindowMessage,
+  WireMessage,
+} from './protocol'
+export {
+  DEFAULT_STATS_INTERVAL,
+  STATS_HISTORY_LENGTH,
+  StatsCollector,
+} from './StatsCollector'
+export type { ConnectionStatsSample, StatsListener } from './StatsCollector'
+export {
+  DEFAULT_QUALITY_SETTINGS,
+  DegradationPreference,
+  QUALITY_PRESETS,
+  QualityPreset,
+  VideoCodec,
+  getSupportedVideoCodecs,
+} from './qualitySettings'
+export type { QualitySettings } from './qualitySettings'
+export {
+  PAIRING_HASH_PARAM_NAME,
+  createPairingToken,
+  getPairingTokenFromUrl,
+  withPairingToken,
+} from './pairing'
+export type {
+  RejectedMessageListener,
+  SignalingListener,
+  SignalingTransport,
+} from './SignalingTransport'
+export {
+  CONTROL_CHANNEL_LABEL,
+  PeerRole,
+  WebRTConnectionService,
+} from './WebRTConnectionService'
+export type {
+  WebRTConnectionOptions,
   WebRTConnectionStatusCallback,
+  ConnectionStateListener,
+  RecoveryListener,
   MessageCallback,
 } from './WebRTConnectionService'
+export {
+  DEFAULT_RECONNECT_OPTIONS,
+  RecoveryState,
+} from './ConnectionRecovery'
+export type {
+  ReconnectOptions,
+  RecoveryProgress,
+} from './ConnectionRecovery'
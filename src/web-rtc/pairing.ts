@@ -0,0 +1,22 @@
+// Parameter of the secondary URL's fragment carrying the pairing token, the
+// fragment is never sent to the server
+export const PAIRING_HASH_PARAM_NAME = 'pairing'
+
+/** Random token proving that a window was paired by the primary window */
+export const createPairingToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('')
+
+/** Copy of the URL passing the pairing token to the window it opens */
+export const withPairingToken = (url: URL, token: string): URL => {
+  const paired = new URL(url)
+  paired.hash = new URLSearchParams({
+    [PAIRING_HASH_PARAM_NAME]: token,
+  }).toString()
+  return paired
+}
+
+/** Pairing token in the fragment of the given URL, if any */
+export const getPairingTokenFromUrl = (url: URL): string | null =>
+  new URLSearchParams(url.hash.slice(1)).get(PAIRING_HASH_PARAM_NAME)
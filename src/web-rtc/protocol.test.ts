@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  MessageType,
+  PROTOCOL_VERSION,
+  PairingError,
+  ProtocolError,
+  ProtocolVersionMismatchError,
+  parseMessage,
+  toWireMessage,
+} from './protocol'
+
+describe('parseMessage', () => {
+  it('reads back a message tagged for the wire', () => {
+    const message = { type: MessageType.PLAY } as const
+    expect(parseMessage(toWireMessage(message, 'token'), 'token')).toEqual(
+      message,
+    )
+  })
+
+  it('accepts a message without a token when none is expected', () => {
+    expect(
+      parseMessage({ type: MessageType.PAUSE, version: PROTOCOL_VERSION }),
+    ).toEqual({ type: MessageType.PAUSE })
+  })
+
+  it('rejects a message without the pairing token', () => {
+    const data = { type: MessageType.PLAY, version: PROTOCOL_VERSION }
+    expect(() => parseMessage(data, 'token')).toThrow(PairingError)
+    expect(() => parseMessage({ ...data, token: 'other' }, 'token')).toThrow(
+      PairingError,
+    )
+  })
+
+  it('checks the token before the version', () => {
+    expect(() =>
+      parseMessage({ type: MessageType.PLAY, version: 0 }, 'token'),
+    ).toThrow(PairingError)
+  })
+
+  it('rejects another protocol version', () => {
+    const parse = () =>
+      parseMessage({ type: MessageType.PLAY, version: PROTOCOL_VERSION - 1 })
+    expect(parse).toThrow(ProtocolVersionMismatchError)
+    expect(parse).toThrow(
+      expect.objectContaining({ remoteVersion: PROTOCOL_VERSION - 1 }),
+    )
+  })
+
+  it('rejects a message without a version', () => {
+    expect(() => parseMessage({ type: MessageType.PLAY })).toThrow(
+      ProtocolError,
+    )
+  })
+
+  it('rejects what is not a known message', () => {
+    expect(() => parseMessage('play')).toThrow(ProtocolError)
+    expect(() => parseMessage(null)).toThrow(ProtocolError)
+    expect(() =>
+      parseMessage({ type: 'unknown', version: PROTOCOL_VERSION }),
+    ).toThrow('Unknown message type "unknown"')
+  })
+
+  it('rejects a malformed payload', () => {
+    expect(() =>
+      parseMessage({
+        type: MessageType.AUDIO_ROUTING,
+        routing: 'nowhere',
+        version: PROTOCOL_VERSION,
+      }),
+    ).toThrow(ProtocolError)
+    expect(() =>
+      parseMessage({
+        type: MessageType.WEBRTC_OFFER,
+        offer: { type: 'offer', sdp: '' },
+        version: PROTOCOL_VERSION,
+      }),
+    ).toThrow('no connection id')
+  })
+
+  it('drops the fields a message does not have', () => {
+    expect(
+      parseMessage({
+        type: MessageType.CAPTIONS,
+        cues: [{ text: 'Hello', extra: true }],
+        version: PROTOCOL_VERSION,
+        token: 'token',
+      }),
+    ).toEqual({ type: MessageType.CAPTIONS, cues: [{ text: 'Hello' }] })
+  })
+})
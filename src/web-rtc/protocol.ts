@@ -0,0 +1,570 @@
+/**
+ * Version of the message protocol spoken between the primary and secondary
+ * windows. Bump it whenever a message is added, removed or changes shape.
+ */
+export const PROTOCOL_VERSION = 8
+
+export const MessageType = {
+  WINDOW_READY: 'windowReady',
+  WINDOW_RELOADED: 'windowReloaded',
+  WINDOW_RELOADING: 'windowReloading',
+  WINDOW_CLOSED: 'windowClosed',
+  PLAY: 'play',
+  PAUSE: 'pause',
+  PLAYBACK_STATE: 'playbackState',
+  PLAYBACK_COMMAND: 'playbackCommand',
+  CAPTIONS: 'captions',
+  AUDIO_ROUTING: 'audioRouting',
+  ANNOTATIONS: 'annotations',
+  LATENCY_PING: 'latencyPing',
+  LATENCY_PONG: 'latencyPong',
+  LATENCY_TARGET: 'latencyTarget',
+  WEBRTC_OFFER: 'webrtc-offer',
+  WEBRTC_ANSWER: 'webrtc-answer',
+  ICE_CANDIDATE: 'ice-candidate',
+  RECONNECTING: 'reconnecting',
+} as const
+
+export type MessageType = (typeof MessageType)[keyof typeof MessageType]
+
+export interface WindowReadyMessage {
+  type: typeof MessageType.WINDOW_READY
+}
+
+export interface WindowReloadedMessage {
+  type: typeof MessageType.WINDOW_RELOADED
+}
+
+export interface WindowReloadingMessage {
+  type: typeof MessageType.WINDOW_RELOADING
+}
+
+export interface WindowClosedMessage {
+  type: typeof MessageType.WINDOW_CLOSED
+}
+
+export interface PlayMessage {
+  type: typeof MessageType.PLAY
+}
+
+export interface PauseMessage {
+  type: typeof MessageType.PAUSE
+}
+
+/** Playback state of the primary video */
+export interface PlaybackState {
+  currentTime: number
+  /** `null` until the metadata is loaded, and for live sources */
+  duration: number | null
+  paused: boolean
+  playbackRate: number
+  volume: number
+  muted: boolean
+  loop: boolean
+  /** `Date.now()` on the primary when the state was read */
+  sentAt: number
+}
+
+export const PlaybackAction = {
+  SEEK: 'seek',
+  SET_RATE: 'setRate',
+  SET_VOLUME: 'setVolume',
+  SET_LOOP: 'setLoop',
+} as const
+
+export type PlaybackAction =
+  (typeof PlaybackAction)[keyof typeof PlaybackAction]
+
+/** Change to the primary video requested by a secondary window */
+export type PlaybackCommand =
+  | { action: typeof PlaybackAction.SEEK; time: number }
+  | { action: typeof PlaybackAction.SET_RATE; rate: number }
+  | { action: typeof PlaybackAction.SET_VOLUME; volume: number; muted: boolean }
+  | { action: typeof PlaybackAction.SET_LOOP; loop: boolean }
+
+export interface PlaybackStateMessage {
+  type: typeof MessageType.PLAYBACK_STATE
+  state: PlaybackState
+}
+
+export interface PlaybackCommandMessage {
+  type: typeof MessageType.PLAYBACK_COMMAND
+  command: PlaybackCommand
+}
+
+/** Caption cue currently shown on the primary video */
+export interface CaptionCue {
+  text: string
+}
+
+export interface CaptionsMessage {
+  type: typeof MessageType.CAPTIONS
+  /** Active cues of the selected track, empty when nothing is shown */
+  cues: CaptionCue[]
+}
+
+/** Where the audio of the video is played */
+export const AudioRouting = {
+  PRIMARY: 'primary',
+  SECONDARY: 'secondary',
+  BOTH: 'both',
+} as const
+
+export type AudioRouting = (typeof AudioRouting)[keyof typeof AudioRouting]
+
+export interface AudioRoutingMessage {
+  type: typeof MessageType.AUDIO_ROUTING
+  routing: AudioRouting
+}
+
+export const AnnotationTool = {
+  PEN: 'pen',
+  ARROW: 'arrow',
+  HIGHLIGHT: 'highlight',
+} as const
+
+export type AnnotationTool =
+  (typeof AnnotationTool)[keyof typeof AnnotationTool]
+
+/** When annotations go away */
+export const AnnotationMode = {
+  /** Shown around the playback time they were drawn at */
+  TIED_TO_TIME: 'tiedToTime',
+  /** Cleared when the playback resumes */
+  CLEAR_ON_PLAY: 'clearOnPlay',
+} as const
+
+export type AnnotationMode =
+  (typeof AnnotationMode)[keyof typeof AnnotationMode]
+
+/**
+ * Point in normalized video coordinates: 0,0 is the top left and 1,1 the
+ * bottom right corner of the picture, whatever size it is shown at
+ */
+export interface AnnotationPoint {
+  x: number
+  y: number
+}
+
+/** Something drawn over the video, an arrow has two points */
+export interface AnnotationStroke {
+  id: string
+  tool: AnnotationTool
+  color: string
+  points: AnnotationPoint[]
+  /** Playback time it was drawn at, `null` when unknown */
+  time: number | null
+}
+
+export interface AnnotationsMessage {
+  type: typeof MessageType.ANNOTATIONS
+  /** Every annotation, oldest first */
+  strokes: AnnotationStroke[]
+  mode: AnnotationMode
+}
+
+/**
+ * Sent by the primary about once a second to measure the latency. Times are
+ * milliseconds on the clock both windows share, see `latencyClock`.
+ */
+export interface LatencyPingMessage {
+  type: typeof MessageType.LATENCY_PING
+  sentAt: number
+  /** Latest estimate for this window, to show it there too */
+  glassToGlass: number | null
+  /** Whether the video carries frame markers to read */
+  frameMarker: boolean
+}
+
+/** Delays measured by the receiver, in milliseconds per frame */
+export interface ReceiverDelays {
+  jitterBufferDelay: number | null
+  decodeDelay: number | null
+}
+
+/** Frame marker last read from the received video */
+export interface FrameMarkerSighting {
+  counter: number
+  /** When the frame was shown */
+  shownAt: number
+}
+
+export interface LatencyPongMessage {
+  type: typeof MessageType.LATENCY_PONG
+  /** Echo of the ping's `sentAt` */
+  sentAt: number
+  receiver: ReceiverDelays
+  marker: FrameMarkerSighting | null
+}
+
+/** Jitter buffer delay the secondary should aim for */
+export interface LatencyTargetMessage {
+  type: typeof MessageType.LATENCY_TARGET
+  /** Milliseconds, `null` leaves it to the browser */
+  jitterBufferTarget: number | null
+}
+
+/**
+ * Signaling messages carry the id of the peer connection they belong to, so
+ * an offer for the current connection (e.g. an ICE restart) can be told apart
+ * from one for a new connection, and late messages for an old one ignored.
+ */
+export interface WebRTCOfferMessage {
+  type: typeof MessageType.WEBRTC_OFFER
+  connectionId: string
+  offer: RTCSessionDescriptionInit
+}
+
+export interface WebRTCAnswerMessage {
+  type: typeof MessageType.WEBRTC_ANSWER
+  connectionId: string
+  answer: RTCSessionDescriptionInit
+}
+
+export interface IceCandidateMessage {
+  type: typeof MessageType.ICE_CANDIDATE
+  connectionId: string
+  candidate: RTCIceCandidateInit | null
+}
+
+/** Progress of the primary's attempts to recover a lost connection */
+export interface ReconnectingMessage {
+  type: typeof MessageType.RECONNECTING
+  attempt: number
+  maxAttempts: number
+  /** Set once the last attempt failed */
+  gaveUp: boolean
+}
+
+/** Messages used to set up the peer connection, handled by the service itself */
+export type SignalingMessage =
+  | WebRTCOfferMessage
+  | WebRTCAnswerMessage
+  | IceCandidateMessage
+  | ReconnectingMessage
+
+/** Window lifecycle messages, sent over the signaling transport */
+export type WindowMessage =
+  | WindowReadyMessage
+  | WindowReloadedMessage
+  | WindowReloadingMessage
+  | WindowClosedMessage
+
+/** Messages sent over the control data channel once the peers are connected */
+export type ChannelMessage =
+  | PlayMessage
+  | PauseMessage
+  | PlaybackStateMessage
+  | PlaybackCommandMessage
+  | CaptionsMessage
+  | AudioRoutingMessage
+  | AnnotationsMessage
+  | LatencyPingMessage
+  | LatencyPongMessage
+  | LatencyTargetMessage
+
+/** Messages passed on to the players */
+export type ControlMessage = WindowMessage | ChannelMessage
+
+export type ProtocolMessage = SignalingMessage | ControlMessage
+
+/**
+ * Shape of a message on the wire: a protocol message tagged with the sender's
+ * protocol version and the pairing token of the session
+ */
+export type WireMessage = ProtocolMessage & { version: number; token?: string }
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProtocolError'
+  }
+}
+
+export class ProtocolVersionMismatchError extends ProtocolError {
+  readonly remoteVersion: number
+
+  constructor(remoteVersion: number) {
+    super(
+      `Protocol version mismatch: the other window speaks v${remoteVersion}, this window speaks v${PROTOCOL_VERSION}. Reload both windows.`,
+    )
+    this.name = 'ProtocolVersionMismatchError'
+    this.remoteVersion = remoteVersion
+  }
+}
+
+export class PairingError extends ProtocolError {
+  constructor() {
+    super('Message without the pairing token of this session')
+    this.name = 'PairingError'
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+const isSessionDescription = (
+  value: unknown,
+): value is RTCSessionDescriptionInit =>
+  isRecord(value) &&
+  typeof value.type === 'string' &&
+  (value.sdp === undefined || typeof value.sdp === 'string')
+
+const isIceCandidate = (value: unknown): value is RTCIceCandidateInit =>
+  isRecord(value) &&
+  typeof value.candidate === 'string' &&
+  (value.sdpMid === undefined ||
+    value.sdpMid === null ||
+    typeof value.sdpMid === 'string') &&
+  (value.sdpMLineIndex === undefined ||
+    value.sdpMLineIndex === null ||
+    typeof value.sdpMLineIndex === 'number')
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isPlaybackState = (value: unknown): value is PlaybackState =>
+  isRecord(value) &&
+  isFiniteNumber(value.currentTime) &&
+  (value.duration === null || isFiniteNumber(value.duration)) &&
+  typeof value.paused === 'boolean' &&
+  isFiniteNumber(value.playbackRate) &&
+  isFiniteNumber(value.volume) &&
+  value.volume >= 0 &&
+  value.volume <= 1 &&
+  typeof value.muted === 'boolean' &&
+  typeof value.loop === 'boolean' &&
+  isFiniteNumber(value.sentAt)
+
+const isPlaybackCommand = (value: unknown): value is PlaybackCommand => {
+  if (!isRecord(value)) {
+    return false
+  }
+  switch (value.action) {
+    case PlaybackAction.SEEK:
+      return isFiniteNumber(value.time) && value.time >= 0
+    case PlaybackAction.SET_RATE:
+      return isFiniteNumber(value.rate) && value.rate > 0
+    case PlaybackAction.SET_VOLUME:
+      return (
+        isFiniteNumber(value.volume) &&
+        value.volume >= 0 &&
+        value.volume <= 1 &&
+        typeof value.muted === 'boolean'
+      )
+    case PlaybackAction.SET_LOOP:
+      return typeof value.loop === 'boolean'
+    default:
+      return false
+  }
+}
+
+const isCaptionCue = (value: unknown): value is CaptionCue =>
+  isRecord(value) && typeof value.text === 'string'
+
+const audioRoutings = new Set<unknown>(Object.values(AudioRouting))
+
+const annotationTools = new Set<unknown>(Object.values(AnnotationTool))
+
+const annotationModes = new Set<unknown>(Object.values(AnnotationMode))
+
+const isAnnotationPoint = (value: unknown): value is AnnotationPoint =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y)
+
+const isAnnotationStroke = (value: unknown): value is AnnotationStroke =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  annotationTools.has(value.tool) &&
+  typeof value.color === 'string' &&
+  Array.isArray(value.points) &&
+  value.points.every(isAnnotationPoint) &&
+  (value.time === null || isFiniteNumber(value.time))
+
+const isNumberOrNull = (value: unknown): value is number | null =>
+  value === null || isFiniteNumber(value)
+
+const isReceiverDelays = (value: unknown): value is ReceiverDelays =>
+  isRecord(value) &&
+  isNumberOrNull(value.jitterBufferDelay) &&
+  isNumberOrNull(value.decodeDelay)
+
+const isFrameMarkerSighting = (value: unknown): value is FrameMarkerSighting =>
+  isRecord(value) &&
+  Number.isInteger(value.counter) &&
+  isFiniteNumber(value.shownAt)
+
+const messageTypes = new Set<string>(Object.values(MessageType))
+
+const isMessageType = (value: unknown): value is MessageType =>
+  typeof value === 'string' && messageTypes.has(value)
+
+/**
+ * Tag a protocol message with the local protocol version and the pairing
+ * token, if any, before sending it
+ */
+export const toWireMessage = (
+  message: ProtocolMessage,
+  token?: string,
+): WireMessage => ({
+  ...message,
+  version: PROTOCOL_VERSION,
+  ...(token !== undefined && { token }),
+})
+
+/**
+ * Validate a message received from the other window.
+ * Throws a ProtocolError for malformed or unknown payloads, a PairingError
+ * when the expected pairing token is missing and a
+ * ProtocolVersionMismatchError when the sender speaks another protocol version.
+ */
+export const parseMessage = (
+  data: unknown,
+  expectedToken?: string,
+): ProtocolMessage => {
+  if (!isRecord(data)) {
+    throw new ProtocolError(
+      `Invalid message: expected an object, got ${typeof data}`,
+    )
+  }
+  if (expectedToken !== undefined && data.token !== expectedToken) {
+    throw new PairingError()
+  }
+  if (typeof data.version !== 'number') {
+    throw new ProtocolError('Invalid message: missing protocol version')
+  }
+  if (data.version !== PROTOCOL_VERSION) {
+    throw new ProtocolVersionMismatchError(data.version)
+  }
+  const { type } = data
+  if (!isMessageType(type)) {
+    throw new ProtocolError(`Unknown message type "${String(type)}"`)
+  }
+  switch (type) {
+    case MessageType.WEBRTC_OFFER:
+      if (typeof data.connectionId !== 'string') {
+        throw new ProtocolError(`Invalid "${type}" message: no connection id`)
+      }
+      if (!isSessionDescription(data.offer)) {
+        throw new ProtocolError(`Invalid "${type}" message: bad offer`)
+      }
+      return { type, connectionId: data.connectionId, offer: data.offer }
+    case MessageType.WEBRTC_ANSWER:
+      if (typeof data.connectionId !== 'string') {
+        throw new ProtocolError(`Invalid "${type}" message: no connection id`)
+      }
+      if (!isSessionDescription(data.answer)) {
+        throw new ProtocolError(`Invalid "${type}" message: bad answer`)
+      }
+      return { type, connectionId: data.connectionId, answer: data.answer }
+    case MessageType.ICE_CANDIDATE:
+      if (typeof data.connectionId !== 'string') {
+        throw new ProtocolError(`Invalid "${type}" message: no connection id`)
+      }
+      if (data.candidate !== null && !isIceCandidate(data.candidate)) {
+        throw new ProtocolError(`Invalid "${type}" message: bad candidate`)
+      }
+      return {
+        type,
+        connectionId: data.connectionId,
+        candidate: data.candidate,
+      }
+    case MessageType.RECONNECTING:
+      if (
+        !isFiniteNumber(data.attempt) ||
+        !isFiniteNumber(data.maxAttempts) ||
+        typeof data.gaveUp !== 'boolean'
+      ) {
+        throw new ProtocolError(`Invalid "${type}" message: bad progress`)
+      }
+      return {
+        type,
+        attempt: data.attempt,
+        maxAttempts: data.maxAttempts,
+        gaveUp: data.gaveUp,
+      }
+    case MessageType.PLAYBACK_STATE:
+      if (!isPlaybackState(data.state)) {
+        throw new ProtocolError(`Invalid "${type}" message: bad state`)
+      }
+      return { type, state: data.state }
+    case MessageType.PLAYBACK_COMMAND:
+      if (!isPlaybackCommand(data.command)) {
+        throw new ProtocolError(`Invalid "${type}" message: bad command`)
+      }
+      return { type, command: data.command }
+    case MessageType.CAPTIONS:
+      if (!Array.isArray(data.cues) || !data.cues.every(isCaptionCue)) {
+        throw new ProtocolError(`Invalid "${type}" message: bad cues`)
+      }
+      return { type, cues: data.cues.map(({ text }) => ({ text })) }
+    case MessageType.AUDIO_ROUTING:
+      if (!audioRoutings.has(data.routing)) {
+        throw new ProtocolError(`Invalid "${type}" message: bad routing`)
+      }
+      return { type, routing: data.routing as AudioRouting }
+    case MessageType.ANNOTATIONS:
+      if (!annotationModes.has(data.mode)) {
+        throw new ProtocolError(`Invalid "${type}" message: bad mode`)
+      }
+      if (
+        !Array.isArray(data.strokes) ||
+        !data.strokes.every(isAnnotationStroke)
+      ) {
+        throw new ProtocolError(`Invalid "${type}" message: bad strokes`)
+      }
+      return {
+        type,
+        strokes: data.strokes.map(({ id, tool, color, points, time }) => ({
+          id,
+          tool,
+          color,
+          points: points.map(({ x, y }) => ({ x, y })),
+          time,
+        })),
+        mode: data.mode as AnnotationMode,
+      }
+    case MessageType.LATENCY_PING:
+      if (
+        !isFiniteNumber(data.sentAt) ||
+        !isNumberOrNull(data.glassToGlass) ||
+        typeof data.frameMarker !== 'boolean'
+      ) {
+        throw new ProtocolError(`Invalid "${type}" message: bad ping`)
+      }
+      return {
+        type,
+        sentAt: data.sentAt,
+        glassToGlass: data.glassToGlass,
+        frameMarker: data.frameMarker,
+      }
+    case MessageType.LATENCY_PONG:
+      if (!isFiniteNumber(data.sentAt) || !isReceiverDelays(data.receiver)) {
+        throw new ProtocolError(`Invalid "${type}" message: bad pong`)
+      }
+      if (data.marker !== null && !isFrameMarkerSighting(data.marker)) {
+        throw new ProtocolError(`Invalid "${type}" message: bad marker`)
+      }
+      return {
+        type,
+        sentAt: data.sentAt,
+        receiver: {
+          jitterBufferDelay: data.receiver.jitterBufferDelay,
+          decodeDelay: data.receiver.decodeDelay,
+        },
+        marker: data.marker && {
+          counter: data.marker.counter,
+          shownAt: data.marker.shownAt,
+        },
+      }
+    case MessageType.LATENCY_TARGET:
+      if (
+        !isNumberOrNull(data.jitterBufferTarget) ||
+        (data.jitterBufferTarget !== null && data.jitterBufferTarget < 0)
+      ) {
+        throw new ProtocolError(`Invalid "${type}" message: bad target`)
+      }
+      return { type, jitterBufferTarget: data.jitterBufferTarget }
+    default:
+      return { type }
+  }
+}
@@ -0,0 +1,148 @@
+export const DegradationPreference = {
+  BALANCED: 'balanced',
+  MAINTAIN_FRAMERATE: 'maintain-framerate',
+  MAINTAIN_RESOLUTION: 'maintain-resolution',
+} as const
+
+export type DegradationPreference =
+  (typeof DegradationPreference)[keyof typeof DegradationPreference]
+
+export const VideoCodec = {
+  VP8: 'video/VP8',
+  VP9: 'video/VP9',
+  H264: 'video/H264',
+  AV1: 'video/AV1',
+} as const
+
+export type VideoCodec = (typeof VideoCodec)[keyof typeof VideoCodec]
+
+/** Encoding settings of the outgoing video */
+export interface QualitySettings {
+  /** Bits per second, `null` leaves it to the browser */
+  maxBitrate: number | null
+  /** 1 sends the full resolution, 2 half the width and height, etc. */
+  scaleResolutionDownBy: number
+  /** `null` sends the frame rate of the source */
+  maxFramerate: number | null
+  degradationPreference: DegradationPreference
+  /** `null` keeps the browser's codec order */
+  preferredCodec: VideoCodec | null
+}
+
+export const QualityPreset = {
+  LOW_CPU: 'lowCpu',
+  BALANCED: 'balanced',
+  MAX_QUALITY: 'maxQuality',
+} as const
+
+export type QualityPreset = (typeof QualityPreset)[keyof typeof QualityPreset]
+
+export const QUALITY_PRESETS: Record<
+  QualityPreset,
+  { label: string; settings: QualitySettings }
+> = {
+  [QualityPreset.LOW_CPU]: {
+    label: 'Low CPU',
+    settings: {
+      maxBitrate: 1_000_000,
+      scaleResolutionDownBy: 2,
+      maxFramerate: 24,
+      degradationPreference: DegradationPreference.MAINTAIN_FRAMERATE,
+      preferredCodec: VideoCodec.VP8,
+    },
+  },
+  [QualityPreset.BALANCED]: {
+    label: 'Balanced',
+    settings: {
+      maxBitrate: 2_500_000,
+      scaleResolutionDownBy: 1,
+      maxFramerate: 30,
+      degradationPreference: DegradationPreference.BALANCED,
+      preferredCodec: null,
+    },
+  },
+  [QualityPreset.MAX_QUALITY]: {
+    label: 'Max quality',
+    settings: {
+      maxBitrate: null,
+      scaleResolutionDownBy: 1,
+      maxFramerate: null,
+      degradationPreference: DegradationPreference.MAINTAIN_RESOLUTION,
+      preferredCodec: VideoCodec.VP9,
+    },
+  },
+}
+
+/** Browser defaults: nothing capped, nothing preferred */
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = {
+  maxBitrate: null,
+  scaleResolutionDownBy: 1,
+  maxFramerate: null,
+  degradationPreference: DegradationPreference.BALANCED,
+  preferredCodec: null,
+}
+
+// Video codecs this browser can both send and receive
+export const getSupportedVideoCodecs = (): VideoCodec[] => {
+  const mimeTypes = new Set(
+    (RTCRtpReceiver.getCapabilities?.('video')?.codecs ?? []).map((codec) =>
+      codec.mimeType.toLowerCase(),
+    ),
+  )
+  return Object.values(VideoCodec).filter((codec) =>
+    mimeTypes.has(codec.toLowerCase()),
+  )
+}
+
+// Receiver codec capabilities with the preferred codec first
+export const orderCodecs = (
+  preferredCodec: VideoCodec,
+): RTCRtpCodec[] | null => {
+  const codecs = RTCRtpReceiver.getCapabilities?.('video')?.codecs
+  if (!codecs) {
+    return null
+  }
+  const isPreferred = (codec: RTCRtpCodec) =>
+    codec.mimeType.toLowerCase() === preferredCodec.toLowerCase()
+  if (!codecs.some(isPreferred)) {
+    return null
+  }
+  return [
+    ...codecs.filter(isPreferred),
+    ...codecs.filter((codec) => !isPreferred(codec)),
+  ]
+}
+
+// Send parameters as implemented by browsers, the DOM typings lack some
+type SendParameters = RTCRtpSendParameters & {
+  degradationPreference?: DegradationPreference
+}
+
+// Write the settings into the send parameters of a video sender
+export const applyQualityToParameters = (
+  parameters: RTCRtpSendParameters,
+  settings: QualitySettings,
+): RTCRtpSendParameters => {
+  const updated: SendParameters = {
+    ...parameters,
+    degradationPreference: settings.degradationPreference,
+    encodings: parameters.encodings.map((encoding) => {
+      const updatedEncoding: RTCRtpEncodingParameters = {
+        ...encoding,
+        scaleResolutionDownBy: settings.scaleResolutionDownBy,
+      }
+      if (settings.maxBitrate !== null) {
+        updatedEncoding.maxBitrate = settings.maxBitrate
+      } else {
+        delete updatedEncoding.maxBitrate
+      }
+      if (settings.maxFramerate !== null) {
+        updatedEncoding.maxFramerate = settings.maxFramerate
+      } else {
+        delete updatedEncoding.maxFramerate
+      }
+      return updatedEncoding
+    }),
+  }
+  return updated
+}
@@ -0,0 +1,67 @@
+import type { ScreenInfo } from './screens'
+import type { ScreenPlacement } from './useScreenPlacement'
+
+const describeScreen = (screen: ScreenInfo) =>
+  [
+    `${screen.label} (${screen.width}×${screen.height})`,
+    screen.isPrimary && 'primary',
+    screen.isCurrent && 'this window',
+  ]
+    .filter(Boolean)
+    .join(', ')
+
+interface ScreenPickerProps {
+  placement: ScreenPlacement
+}
+
+export function ScreenPicker({ placement }: ScreenPickerProps) {
+  const {
+    isSupported,
+    screens,
+    screenId,
+    fullscreen,
+    error,
+    detectScreens,
+    selectScreen,
+    setFullscreen,
+  } = placement
+
+  return (
+    <div className="screen-picker">
+      {!isSupported ? (
+        <span className="screen-picker-note">
+          This browser cannot list the displays, the secondary window opens
+          where it was last
+        </span>
+      ) : screens.length === 0 ? (
+        <button type="button" onClick={detectScreens}>
+          Detect displays
+        </button>
+      ) : (
+        <label>
+          Open on
+          <select
+            value={screenId ?? ''}
+            onChange={(event) => selectScreen(event.target.value || null)}
+          >
+            <option value="">Where it was last</option>
+            {screens.map((screen) => (
+              <option key={screen.id} value={screen.id}>
+                {describeScreen(screen)}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label>
+        <input
+          type="checkbox"
+          checked={fullscreen}
+          onChange={(event) => setFullscreen(event.target.checked)}
+        />
+        Fullscreen
+      </label>
+      {error && <span className="screen-picker-error">{error}</span>}
+    </div>
+  )
+}
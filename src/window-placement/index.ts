@@ -0,0 +1,21 @@
+export {
+  DEFAULT_WINDOW_PLACEMENT,
+  loadWindowPlacement,
+  saveWindowPlacement,
+} from './placementStorage'
+export type { WindowGeometry, WindowPlacement } from './placementStorage'
+export { ScreenPicker } from './ScreenPicker'
+export {
+  isWindowManagementGranted,
+  isWindowManagementSupported,
+  watchScreens,
+} from './screens'
+export type { ScreenInfo } from './screens'
+export { useScreenPlacement } from './useScreenPlacement'
+export type { OpenWindowOptions, ScreenPlacement } from './useScreenPlacement'
+export { useSecondaryWindowPlacement } from './useSecondaryWindowPlacement'
+export {
+  DEFAULT_WINDOW_FEATURES,
+  FULLSCREEN_SEARCH_PARAM_NAME,
+  getWindowFeatures,
+} from './windowFeatures'
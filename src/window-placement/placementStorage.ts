@@ -0,0 +1,68 @@
+/** Position and size of a window, in screen coordinates */
+export interface WindowGeometry {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface WindowPlacement {
+  /** Display to open the secondary window on, `null` to let the browser choose */
+  screenId: string | null
+  /** Where the secondary window was last, `null` until it was closed once */
+  geometry: WindowGeometry | null
+  fullscreen: boolean
+}
+
+const STORAGE_KEY = 'video-share-movie:window-placement'
+
+export const DEFAULT_WINDOW_PLACEMENT: WindowPlacement = {
+  screenId: null,
+  geometry: null,
+  fullscreen: true,
+}
+
+const isGeometry = (value: unknown): value is WindowGeometry => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const geometry = value as Record<string, unknown>
+  return ['left', 'top', 'width', 'height'].every(
+    (key) =>
+      typeof geometry[key] === 'number' && Number.isFinite(geometry[key]),
+  )
+}
+
+// Read the placement saved by a previous visit
+export const loadWindowPlacement = (): WindowPlacement => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+    return {
+      screenId:
+        typeof stored?.screenId === 'string'
+          ? stored.screenId
+          : DEFAULT_WINDOW_PLACEMENT.screenId,
+      geometry: isGeometry(stored?.geometry) ? stored.geometry : null,
+      fullscreen:
+        typeof stored?.fullscreen === 'boolean'
+          ? stored.fullscreen
+          : DEFAULT_WINDOW_PLACEMENT.fullscreen,
+    }
+  } catch {
+    return DEFAULT_WINDOW_PLACEMENT
+  }
+}
+
+// Both windows update the placement: the primary the chosen display, the
+// secondary its geometry
+export const saveWindowPlacement = (
+  changes: Partial<WindowPlacement>,
+): WindowPlacement => {
+  const updated = { ...loadWindowPlacement(), ...changes }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+  } catch {
+    // Storage is full or disabled, the placement just won't be remembered
+  }
+  return updated
+}
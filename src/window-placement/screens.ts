@@ -0,0 +1,91 @@
+// Window Management API, not in the DOM typings yet
+interface ScreenDetailed extends Screen {
+  readonly left: number
+  readonly top: number
+  readonly isPrimary: boolean
+  readonly isInternal: boolean
+  readonly label: string
+}
+
+interface ScreenDetails extends EventTarget {
+  readonly screens: readonly ScreenDetailed[]
+  readonly currentScreen: ScreenDetailed
+}
+
+declare global {
+  interface Window {
+    getScreenDetails?: () => Promise<ScreenDetails>
+  }
+}
+
+/** A connected display, in the coordinates `window.open` expects */
+export interface ScreenInfo {
+  id: string
+  label: string
+  left: number
+  top: number
+  width: number
+  height: number
+  isPrimary: boolean
+  /** Whether this window is on that display */
+  isCurrent: boolean
+}
+
+export const isWindowManagementSupported = () =>
+  typeof window.getScreenDetails === 'function'
+
+// Screens have no id: identify them by label and position, which survive
+// reloads as long as the display setup does not change
+const getScreenId = (screen: ScreenDetailed) =>
+  `${screen.label}@${screen.left},${screen.top}`
+
+const toScreenInfo = (
+  screen: ScreenDetailed,
+  index: number,
+  current: ScreenDetailed,
+): ScreenInfo => ({
+  id: getScreenId(screen),
+  label: screen.label || `Display ${index + 1}`,
+  left: screen.left,
+  top: screen.top,
+  width: screen.width,
+  height: screen.height,
+  isPrimary: screen.isPrimary,
+  isCurrent: screen === current,
+})
+
+/** Whether the user already allowed listing the displays, without asking */
+export const isWindowManagementGranted = async (): Promise<boolean> => {
+  try {
+    const status = await navigator.permissions.query({
+      name: 'window-management' as PermissionName,
+    })
+    return status.state === 'granted'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * List the connected displays, asking the user for permission the first time.
+ * Calls `onChange` with the new list when displays are added or removed.
+ * Returns the displays and a function to stop listening.
+ */
+export const watchScreens = async (
+  onChange: (screens: ScreenInfo[]) => void,
+): Promise<{ screens: ScreenInfo[]; stop: () => void }> => {
+  if (!window.getScreenDetails) {
+    throw new Error('This browser cannot list the displays')
+  }
+  const details = await window.getScreenDetails()
+  const list = () =>
+    details.screens.map((screen, index) =>
+      toScreenInfo(screen, index, details.currentScreen),
+    )
+  const handleChange = () => onChange(list())
+  details.addEventListener('screenschange', handleChange)
+  return {
+    screens: list(),
+    stop: () => details.removeEventListener('screenschange', handleChange),
+  }
+}
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { loadWindowPlacement, saveWindowPlacement } from './placementStorage'
+import {
+  type ScreenInfo,
+  isWindowManagementGranted,
+  isWindowManagementSupported,
+  watchScreens,
+} from './screens'
+import { getWindowFeatures } from './windowFeatures'
+
+/** How to open a secondary window */
+export interface OpenWindowOptions {
+  features: string
+  fullscreen: boolean
+}
+
+// Display the secondary window opens on, remembered across visits
+export function useScreenPlacement() {
+  const [isSupported] = useState(isWindowManagementSupported)
+  const [placement, setPlacement] = useState(loadWindowPlacement)
+  const [screens, setScreens] = useState<ScreenInfo[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const stopWatchingRef = useRef<(() => void) | null>(null)
+
+  // List the displays, the browser asks the user for permission first
+  const detectScreens = useCallback(async () => {
+    try {
+      const { screens, stop } = await watchScreens(setScreens)
+      stopWatchingRef.current?.()
+      stopWatchingRef.current = stop
+      setScreens(screens)
+      setError(null)
+    } catch (error) {
+      setError(
+        `Could not list the displays: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }, [])
+
+  // List them right away when the user allowed it on a previous visit
+  useEffect(() => {
+    if (!isSupported) {
+      return
+    }
+    let isCancelled = false
+    isWindowManagementGranted().then((isGranted) => {
+      if (isGranted && !isCancelled) {
+        detectScreens()
+      }
+    })
+    return () => {
+      isCancelled = true
+      stopWatchingRef.current?.()
+      stopWatchingRef.current = null
+    }
+  }, [detectScreens, isSupported])
+
+  const selectScreen = useCallback((screenId: string | null) => {
+    setPlacement(saveWindowPlacement({ screenId }))
+  }, [])
+
+  const setFullscreen = useCallback((fullscreen: boolean) => {
+    setPlacement(saveWindowPlacement({ fullscreen }))
+  }, [])
+
+  // Read the placement again: the secondary saves its geometry when closed
+  const getOpenOptions = useCallback((): OpenWindowOptions => {
+    const current = loadWindowPlacement()
+    return {
+      features: getWindowFeatures(current, screens),
+      fullscreen: current.fullscreen,
+    }
+  }, [screens])
+
+  return {
+    isSupported,
+    screens,
+    screenId: placement.screenId,
+    fullscreen: placement.fullscreen,
+    error,
+    detectScreens,
+    selectScreen,
+    setFullscreen,
+    getOpenOptions,
+  }
+}
+
+export type ScreenPlacement = ReturnType<typeof useScreenPlacement>
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from 'react'
+
+import { saveWindowPlacement } from './placementStorage'
+import { FULLSCREEN_SEARCH_PARAM_NAME } from './windowFeatures'
+
+const isFullscreenRequested = () =>
+  new URLSearchParams(window.location.search).get(
+    FULLSCREEN_SEARCH_PARAM_NAME,
+  ) === 'true'
+
+// Fullscreen state of the secondary window, and remembering where it was
+export function useSecondaryWindowPlacement() {
+  const [isFullscreen, setIsFullscreen] = useState(
+    () => document.fullscreenElement !== null,
+  )
+  // Browsers only allow fullscreen after a user gesture, unless the user
+  // granted the window management permission
+  const [needsGesture, setNeedsGesture] = useState(false)
+
+  const enterFullscreen = useCallback(async () => {
+    setNeedsGesture(false)
+    try {
+      await document.documentElement.requestFullscreen()
+    } catch {
+      setNeedsGesture(true)
+    }
+  }, [])
+
+  useEffect(() => {
+    const handleChange = () =>
+      setIsFullscreen(document.fullscreenElement !== null)
+    document.addEventListener('fullscreenchange', handleChange)
+    return () => {
+      document.removeEventListener('fullscreenchange', handleChange)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isFullscreenRequested()) {
+      enterFullscreen()
+    }
+  }, [enterFullscreen])
+
+  // Go fullscreen on the first click or key press when it was refused
+  useEffect(() => {
+    if (!needsGesture) {
+      return
+    }
+    const handleGesture = () => {
+      enterFullscreen()
+    }
+    window.addEventListener('pointerdown', handleGesture, { once: true })
+    window.addEventListener('keydown', handleGesture, { once: true })
+    return () => {
+      window.removeEventListener('pointerdown', handleGesture)
+      window.removeEventListener('keydown', handleGesture)
+    }
+  }, [enterFullscreen, needsGesture])
+
+  // Remember where the window was, to open the next one there
+  useEffect(() => {
+    const saveGeometry = () => {
+      if (document.fullscreenElement) {
+        return
+      }
+      saveWindowPlacement({
+        geometry: {
+          left: window.screenX,
+          top: window.screenY,
+          width: window.outerWidth,
+          height: window.outerHeight,
+        },
+      })
+    }
+    window.addEventListener('pagehide', saveGeometry)
+    return () => {
+      window.removeEventListener('pagehide', saveGeometry)
+    }
+  }, [])
+
+  return { isFullscreen, needsGesture, enterFullscreen }
+}
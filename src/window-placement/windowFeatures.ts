@@ -0,0 +1,29 @@
+import type { WindowGeometry, WindowPlacement } from './placementStorage'
+import type { ScreenInfo } from './screens'
+
+// Size of the secondary window when nothing better is known
+export const DEFAULT_WINDOW_FEATURES = 'width=1024,height=768'
+
+// Search parameter asking the secondary window to go fullscreen
+export const FULLSCREEN_SEARCH_PARAM_NAME = 'fullscreen'
+
+const toFeatures = ({ left, top, width, height }: WindowGeometry) =>
+  `left=${left},top=${top},width=${width},height=${height}`
+
+/**
+ * `window.open` features placing the secondary window on the chosen display,
+ * or where it was last
+ */
+export const getWindowFeatures = (
+  placement: WindowPlacement,
+  screens: ScreenInfo[],
+): string => {
+  const screen = screens.find((screen) => screen.id === placement.screenId)
+  if (screen) {
+    return toFeatures(screen)
+  }
+  if (placement.geometry) {
+    return toFeatures(placement.geometry)
+  }
+  return DEFAULT_WINDOW_FEATURES
+}